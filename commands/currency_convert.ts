@@ -0,0 +1,98 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import string from '@adonisjs/core/helpers/string'
+import { args, BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import type { DatabaseConversionResult, PricedConversionResult } from '../src/types.js'
+
+export default class CurrencyConvert extends BaseCommand {
+  static commandName = 'currency:convert'
+  static description = 'Convert an amount with the rate the application would use'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @args.string({ description: 'Amount to convert' })
+  declare amount: string
+
+  @args.string({ description: 'Currency to convert from', parse: (value) => value.toUpperCase() })
+  declare from: string
+
+  @args.string({ description: 'Currency to convert to', parse: (value) => value.toUpperCase() })
+  declare to: string
+
+  @flags.string({ description: 'Name of the exchange to convert with' })
+  declare exchange?: string
+
+  @flags.boolean({ description: 'Output the conversion as JSON' })
+  declare json?: boolean
+
+  /**
+   * Display a table of the conversion
+   */
+  protected printConversion(result: DatabaseConversionResult & PricedConversionResult) {
+    const table = this.ui.table()
+    table.head(['Amount', 'Rate', 'Adjusted rate', 'Result', 'Updated', 'Cache'])
+
+    const age = result.date
+      ? `${string.milliseconds.format(Math.max(Date.now() - Date.parse(result.date), 0))} ago`
+      : '-'
+
+    table.row([
+      `${result.query.amount} ${result.query.from}`,
+      String(result.info.rate),
+      result.pricing ? String(result.pricing.rate) : '-',
+      `${result.result} ${result.query.to}`,
+      age,
+      result.cache ?? '-',
+    ])
+
+    table.render()
+  }
+
+  async run() {
+    const manager = await this.app.container.make('currency.manager')
+    const name = this.exchange ?? String(manager.getCurrentExchange())
+
+    if (!manager.getAvailableExchanges().map(String).includes(name)) {
+      this.logger.error(
+        `"${name}" is not a configured exchange. Double check "config/currency.ts" file`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    const amount = Number(this.amount)
+    if (this.amount.trim() === '' || !Number.isFinite(amount)) {
+      this.logger.error(`"${this.amount}" is not a valid amount`)
+      this.exitCode = 1
+      return
+    }
+
+    const result: DatabaseConversionResult & PricedConversionResult = await manager.convert({
+      amount,
+      from: this.from,
+      to: this.to,
+      exchange: name,
+    })
+
+    if (this.json) {
+      this.logger.log(JSON.stringify({ exchange: name, ...result }, null, 2))
+    } else if (result.success) {
+      this.printConversion(result)
+    } else {
+      this.logger.error(`Unable to convert with "${name}": ${result.error?.info ?? 'unknown'}`)
+    }
+
+    if (!result.success) {
+      this.exitCode = 1
+    }
+  }
+}
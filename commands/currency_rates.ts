@@ -0,0 +1,104 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import string from '@adonisjs/core/helpers/string'
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import type { DatabaseExchangeRatesResult } from '../src/types.js'
+
+export default class CurrencyRates extends BaseCommand {
+  static commandName = 'currency:rates'
+  static description = 'Display the exchange rates the application would use'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Name of the exchange to read rates from' })
+  declare exchange?: string
+
+  @flags.string({
+    description: 'Currency the rates are expressed against',
+    parse: (value) => value.trim().toUpperCase(),
+  })
+  declare base?: string
+
+  @flags.array({
+    description: 'Currency codes to display. Displays every rate when omitted',
+    parse: (values) =>
+      values
+        .flatMap((value) => value.split(','))
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean),
+  })
+  declare codes?: string[]
+
+  @flags.boolean({ description: 'Output the rates as JSON' })
+  declare json?: boolean
+
+  /**
+   * Human readable age of an update date
+   */
+  protected formatAge(date?: string) {
+    if (!date) {
+      return '-'
+    }
+
+    return `${string.milliseconds.format(Math.max(Date.now() - Date.parse(date), 0))} ago`
+  }
+
+  /**
+   * Display a table of the rates
+   */
+  protected printRates(result: DatabaseExchangeRatesResult) {
+    const table = this.ui.table()
+    table.head(['Code', 'Rate', 'Updated', 'Cache'])
+
+    for (const [code, rate] of Object.entries(result.rates)) {
+      table.row([
+        code,
+        String(rate),
+        this.formatAge(result.updatedAt?.[code] ?? result.date),
+        result.cache ?? '-',
+      ])
+    }
+
+    table.render()
+  }
+
+  async run() {
+    const manager = await this.app.container.make('currency.manager')
+    const name = this.exchange ?? String(manager.getCurrentExchange())
+
+    if (!manager.getAvailableExchanges().map(String).includes(name)) {
+      this.logger.error(
+        `"${name}" is not a configured exchange. Double check "config/currency.ts" file`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    const result: DatabaseExchangeRatesResult = await manager.getExchangeRates({
+      base: this.base,
+      codes: this.codes,
+      exchange: name,
+    })
+
+    if (this.json) {
+      this.logger.log(JSON.stringify({ exchange: name, ...result }, null, 2))
+    } else if (result.success) {
+      this.printRates(result)
+    } else {
+      this.logger.error(`Unable to fetch rates from "${name}": ${result.error?.info ?? 'unknown'}`)
+    }
+
+    if (!result.success) {
+      this.exitCode = 1
+    }
+  }
+}
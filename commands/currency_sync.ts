@@ -0,0 +1,123 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { resolveExchange, syncFromExchange } from '../src/helpers.js'
+import type { RatesSyncResult } from '../src/types.js'
+
+export default class CurrencySync extends BaseCommand {
+  static commandName = 'currency:sync'
+  static description = 'Sync exchange rates from a remote exchange into the database exchange'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Name of the exchange to fetch rates from' })
+  declare from?: string
+
+  @flags.string({ description: 'Name of the database exchange to write rates into' })
+  declare into?: string
+
+  @flags.array({
+    description: 'Currency codes to sync. Syncs every rate when omitted',
+    parse: (values) =>
+      values
+        .flatMap((value) => value.split(','))
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean),
+  })
+  declare codes?: string[]
+
+  @flags.boolean({ description: 'Display the changes without writing them' })
+  declare dryRun?: boolean
+
+  @flags.boolean({ description: 'Write rates changing by more than the configured "maxChange"' })
+  declare force?: boolean
+
+  /**
+   * Display a table of the computed changes
+   */
+  protected printChanges(result: RatesSyncResult) {
+    const table = this.ui.table()
+    table.head(['Code', 'Current', 'New', 'Change', 'Status'])
+
+    for (const change of result.changes) {
+      const diff =
+        change.previous === undefined
+          ? '-'
+          : `${(((change.rate - change.previous) / change.previous) * 100).toFixed(4)}%`
+
+      table.row([
+        change.code,
+        change.previous === undefined ? '-' : String(change.previous),
+        String(change.rate),
+        diff,
+        change.status,
+      ])
+    }
+
+    table.render()
+  }
+
+  async run() {
+    const manager = await this.app.container.make('currency.manager')
+    const names = manager.getAvailableExchanges().map(String)
+    const isDatabase = (name: string) => resolveExchange(manager, name) instanceof DatabaseExchange
+
+    const into = this.into ?? names.find((name) => isDatabase(name))
+    if (!into || !names.includes(into) || !isDatabase(into)) {
+      this.logger.error(
+        `"${into ?? ''}" is not a database exchange. Double check "config/currency.ts" file`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    const from = this.from ?? names.find((name) => !isDatabase(name))
+    if (!from || !names.includes(from) || from === into) {
+      this.logger.error(
+        `"${from ?? ''}" is not a valid source exchange. Double check "config/currency.ts" file`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    let result: RatesSyncResult
+    try {
+      result = await syncFromExchange(manager, {
+        from,
+        into,
+        codes: this.codes,
+        dryRun: this.dryRun,
+        force: this.force,
+      })
+    } catch (error) {
+      this.logger.error(error.message)
+      this.exitCode = 1
+      return
+    }
+
+    if (this.dryRun) {
+      this.printChanges(result)
+    } else {
+      const changed = result.changes.filter((change) => change.status !== 'unchanged')
+      this.logger.success(`Synced ${changed.length} rate(s) from "${from}" into "${into}"`)
+    }
+
+    for (const failure of result.failures) {
+      this.logger.error(`${failure.code}: ${failure.error}`)
+    }
+
+    if (!result.success) {
+      this.exitCode = 1
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { resolveExchange } from '../src/helpers.js'
+import type { RatesValidationResult } from '../src/types.js'
+
+export default class CurrencyValidate extends BaseCommand {
+  static commandName = 'currency:validate'
+  static description = 'Audit the rates of the database exchange against the integrity rules'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Name of the database exchange to audit' })
+  declare exchange?: string
+
+  /**
+   * Display a table of the invalid rates
+   */
+  protected printViolations(result: RatesValidationResult) {
+    const table = this.ui.table()
+    table.head(['Code', 'Rule', 'Rate', 'Previous', 'Message'])
+
+    for (const violation of result.violations) {
+      table.row([
+        violation.code,
+        violation.rule,
+        String(violation.rate),
+        violation.previous === undefined ? '-' : String(violation.previous),
+        violation.message,
+      ])
+    }
+
+    table.render()
+  }
+
+  async run() {
+    const manager = await this.app.container.make('currency.manager')
+    const names = manager.getAvailableExchanges().map(String)
+    const isDatabase = (name: string) => resolveExchange(manager, name) instanceof DatabaseExchange
+
+    const name = this.exchange ?? names.find((exchange) => isDatabase(exchange))
+    if (!name || !names.includes(name) || !isDatabase(name)) {
+      this.logger.error(
+        `"${name ?? ''}" is not a database exchange. Double check "config/currency.ts" file`
+      )
+      this.exitCode = 1
+      return
+    }
+
+    const result = await resolveExchange<DatabaseExchange>(manager, name).validateRates()
+    if (result.success) {
+      this.logger.success(`All ${result.rows} rate(s) of "${name}" are valid`)
+      return
+    }
+
+    this.printViolations(result)
+    this.logger.error(`Found ${result.violations.length} invalid rate(s) in "${name}"`)
+    this.exitCode = 1
+  }
+}
@@ -18,16 +18,39 @@ import { stubsRoot } from './stubs/main.js'
 export async function configure(command: ConfigureCommand) {
   const codemods = await command.createCodemods()
 
+  /**
+   * Prompt to keep a history of exchange rates when not defined
+   * via the "--history" flag
+   */
+  let history: boolean | undefined = command.parsedFlags.history
+  if (history === undefined) {
+    history = await command.prompt.confirm(
+      'Do you want to keep a history of exchange rates for conversions at a past date?'
+    )
+  }
+
+  /**
+   * Prompt to detect the display currency of every request when not
+   * defined via the "--middleware" flag
+   */
+  let middleware: boolean | undefined = command.parsedFlags.middleware
+  if (middleware === undefined) {
+    middleware = await command.prompt.confirm(
+      'Do you want to detect the display currency of every HTTP request?'
+    )
+  }
+
   /**
    * Publish config file
    */
-  await codemods.makeUsingStub(stubsRoot, 'config/currency.stub', {})
+  await codemods.makeUsingStub(stubsRoot, 'config/currency.stub', { history })
 
   /**
-   * Register provider
+   * Register provider and commands
    */
   await codemods.updateRcFile((rcFile) => {
     rcFile.addProvider('@mixxtor/currencyx-adonisjs/currency_provider')
+    rcFile.addCommand('@mixxtor/currencyx-adonisjs/commands')
   })
 
   /**
@@ -56,4 +79,38 @@ export async function configure(command: ConfigureCommand) {
       },
     })
   }
+
+  /**
+   * Publish and register the middleware resolving "ctx.currency"
+   */
+  if (middleware) {
+    await codemods.makeUsingStub(stubsRoot, 'middleware/detect_user_currency_middleware.stub', {})
+    await codemods.registerMiddleware('router', [
+      { path: '#middleware/detect_user_currency_middleware' },
+    ])
+  }
+
+  if (!history) {
+    return
+  }
+
+  /**
+   * Create currency rate model and migration for the history table
+   */
+  if (!project?.getSourceFile('app/models/currency_rate.ts')) {
+    await codemods.makeUsingStub(stubsRoot, 'models/currency_rate.stub', {})
+  }
+
+  const historyMigrations =
+    project?.getSourceFiles('database/migrations/*_create_currency_rates_table.ts') || []
+
+  if (historyMigrations.length === 0) {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '')
+    await codemods.makeUsingStub(stubsRoot, 'migrations/create_currency_rates_table.stub', {
+      migration: {
+        className: 'CreateCurrencyRatesTable',
+        fileName: `${timestamp}_create_currency_rates_table.ts`,
+      },
+    })
+  }
 }
@@ -7,9 +7,17 @@
 |
 */
 
+export * as errors from './src/errors.js'
 export { configure } from './configure.js'
 export { stubsRoot } from './stubs/main.js'
 export { defineConfig, exchanges } from './src/define_config.js'
+export { Decimal } from './src/decimal.js'
+export { instrumentExchange } from './src/instrumentation.js'
+export { Money, moneyColumn, withMoney } from './src/money.js'
+export { CurrencyContext } from './src/currency_context.js'
+export { CurrencyManager } from './src/currency_manager.js'
+export { CurrencyHealthCheck } from './src/health_check.js'
+export { preferredLocale, currencyForLocale } from './src/helpers.js'
 
 // Types
 export type {
@@ -20,7 +28,52 @@ export type {
   CurrencyRecord,
   CurrencyExchanges,
   InferExchanges,
+  HistoryConfig,
+  PrecisionConfig,
+  RoundingMode,
+  DatabaseConversionResult,
+  DatabaseExchangeRatesResult,
+  StaleRatesEvent,
+  StaticConfig,
+  FallbackConfig,
+  FallbackConversionResult,
+  FallbackExchangeRatesResult,
+  DatabaseConvertParams,
+  HistoricalRatesParams,
+  SyncRatesParams,
+  RateChange,
+  RatesSyncResult,
+  RateValidationConfig,
+  RateViolation,
+  RatesValidationResult,
+  SnapshotConfig,
+  TenancyConfig,
+  CurrencyEvents,
+  CurrencyConvertedEvent,
+  CurrencyRatesFetchedEvent,
+  CurrencyRatesSyncedEvent,
+  CurrencyCacheHitEvent,
+  CurrencyErrorEvent,
+  CurrencyRoutesOptions,
+  CurrencyErrorCode,
+  CurrencyResultError,
+  ThrowOnErrorOptions,
+  ExchangeOptions,
+  Markup,
+  PricingConfig,
+  PricingRequest,
+  PricedConversionResult,
+  MoneyColumnOptions,
 } from './src/types.js'
 
 // Database Provider
 export { DatabaseExchange } from './src/exchanges/database.js'
+
+// Fake Provider
+export { FakeExchange } from './src/exchanges/fake.js'
+
+// Static Provider
+export { StaticExchange } from './src/exchanges/static.js'
+
+// Fallback Provider
+export { FallbackExchange } from './src/exchanges/fallback.js'
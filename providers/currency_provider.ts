@@ -8,8 +8,13 @@
  */
 
 import type { ApplicationService } from '@adonisjs/core/types'
-import CurrencyService, { createCurrency } from '@mixxtor/currencyx-js'
-import type { CurrencyConfig } from '../src/types.js'
+import type { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { CurrencyConfig, CurrencyEvents } from '../src/types.js'
+import { instrumentExchange } from '../src/instrumentation.js'
+import { abortOnClose, closeExchange } from '../src/lifecycle.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { RatesRefresher } from '../src/rates_refresher.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
 import { configProvider } from '@adonisjs/core'
 import { RuntimeException } from '@adonisjs/core/exceptions'
 
@@ -18,11 +23,17 @@ import { RuntimeException } from '@adonisjs/core/exceptions'
  */
 declare module '@adonisjs/core/types' {
   interface ContainerBindings {
-    'currency.manager': CurrencyService
+    'currency.manager': CurrencyManager
   }
+
+  interface EventsList extends CurrencyEvents {}
 }
 
 export default class CurrencyProvider {
+  #config?: CurrencyConfig
+  #resolvingConfig?: Promise<CurrencyConfig>
+  #refresher?: RatesRefresher
+
   constructor(protected app: ApplicationService) {}
 
   /**
@@ -30,37 +41,125 @@ export default class CurrencyProvider {
    */
   async register() {
     this.app.container.singleton('currency.manager', async () => {
-      const currencyConfigProvider = this.app.config.get<CurrencyConfig>('currency')
+      const config = await this.#resolveConfig()
+      this.#config = config
 
-      if (!currencyConfigProvider) {
-        throw new RuntimeException(
-          'Currency configuration not found. Make sure you have a "config/currency.ts" file with "defineConfig" export'
-        )
-      }
+      // Create currency service with all providers
+      const currency = new CurrencyManager(config)
 
-      const config = await configProvider.resolve<CurrencyConfig>(this.app, currencyConfigProvider)
-      if (!config) {
-        throw new RuntimeException(
-          'Invalid "config/currency.ts" file. Make sure you are using the "defineConfig" method'
-        )
+      // Report conversions, rate updates and failures through the emitter,
+      // diagnostics through the logger, and stop waiting on the requests
+      // of remote exchanges on shutdown
+      const emitter = await this.app.container.make('emitter')
+      const logger = await this.app.container.make('logger')
+      for (const [name, exchange] of Object.entries<BaseCurrencyExchange>(config.exchanges)) {
+        if (exchange instanceof DatabaseExchange) {
+          exchange.useLogger(logger)
+        }
+
+        instrumentExchange(name, abortOnClose(exchange), emitter)
       }
 
-      // Create currency service with all providers
-      return createCurrency(config)
+      return currency
     })
   }
 
+  /**
+   * Resolve the "config/currency.ts" file once, for the manager and the
+   * refresher
+   */
+  #resolveConfig() {
+    if (!this.#resolvingConfig) {
+      this.#resolvingConfig = this.#readConfig()
+    }
+
+    return this.#resolvingConfig
+  }
+
+  async #readConfig() {
+    const currencyConfigProvider = this.app.config.get<CurrencyConfig>('currency')
+
+    if (!currencyConfigProvider) {
+      throw new RuntimeException(
+        'Currency configuration not found. Make sure you have a "config/currency.ts" file with "defineConfig" export'
+      )
+    }
+
+    const config = await configProvider.resolve<CurrencyConfig>(this.app, currencyConfigProvider)
+    if (!config) {
+      throw new RuntimeException(
+        'Invalid "config/currency.ts" file. Make sure you are using the "defineConfig" method'
+      )
+    }
+
+    return config
+  }
+
   /**
    * Boot the provider
    */
   async boot() {
-    // Nothing to boot
+    if (this.app.usingEdgeJS) {
+      const edge = await import('edge.js')
+      const { edgePluginCurrency } = await import('../src/plugins/edge.js')
+      const manager = await this.app.container.make('currency.manager')
+      edge.default.use(edgePluginCurrency(manager))
+    }
+
+    await this.#startRefresh()
+  }
+
+  /**
+   * Sync rates in the background when "refresh" is configured for the
+   * current environment. The manager is only resolved then. Uses the
+   * "@adonisjs/lock" service when registered, so only one instance of a
+   * cluster writes the rates
+   */
+  async #startRefresh() {
+    if (!this.app.config.has('currency')) {
+      return
+    }
+
+    const { refresh } = await this.#resolveConfig()
+    if (!refresh) {
+      return
+    }
+
+    const environments = refresh.environments ?? ['web']
+    if (!environments.includes(this.app.getEnvironment())) {
+      return
+    }
+
+    const locks =
+      refresh.lock !== false && this.app.container.hasBinding('lock.manager')
+        ? await this.app.container.make('lock.manager')
+        : undefined
+
+    const manager = await this.app.container.make('currency.manager')
+    const logger = await this.app.container.make('logger')
+    this.#refresher = new RatesRefresher(manager, refresh, locks, logger).start()
   }
 
   /**
    * Shutdown the provider
    */
   async shutdown() {
-    // Nothing to shutdown
+    await this.#refresher?.stop()
+
+    /**
+     * Nothing to release when the manager was never resolved
+     */
+    if (!this.#config) {
+      return
+    }
+
+    const logger = await this.app.container.make('logger')
+    for (const [name, exchange] of Object.entries<BaseCurrencyExchange>(this.#config.exchanges)) {
+      try {
+        await closeExchange(exchange)
+      } catch (error) {
+        logger.error({ err: error, exchange: name }, 'Unable to close currency exchange')
+      }
+    }
   }
 }
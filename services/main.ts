@@ -8,8 +8,8 @@
  */
 
 import app from '@adonisjs/core/services/app'
-import CurrencyService from '@mixxtor/currencyx-js'
 import type { CurrencyExchanges } from '../src/types.js'
+import type { CurrencyManager } from '../src/currency_manager.js'
 
 /**
  * Currency service with full type inference
@@ -27,7 +27,7 @@ import type { CurrencyExchanges } from '../src/types.js'
  * ```
  */
 
-let currency: CurrencyService<
+let currency: CurrencyManager<
   Record<keyof CurrencyExchanges, CurrencyExchanges[keyof CurrencyExchanges]>
 >
 
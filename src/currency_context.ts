@@ -0,0 +1,62 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { CurrencyCode } from '@mixxtor/currencyx-js'
+import type { CurrencyManager } from './currency_manager.js'
+
+/**
+ * Display currency and locale of a request, exposed as `ctx.currency`
+ * by the detect user currency middleware
+ *
+ * @example
+ * const price = await ctx.currency.convert(product.price, 'USD')
+ * ctx.currency.format(price) // '€91.23'
+ */
+export class CurrencyContext {
+  constructor(
+    protected manager: CurrencyManager,
+    readonly code: CurrencyCode,
+    readonly locale?: string
+  ) {}
+
+  /**
+   * Convert an amount into the display currency, rounded to its minor
+   * unit, applying the pricing rules of the manager. Returns undefined
+   * when no rate is found
+   */
+  async convert(
+    amount: number,
+    from: CurrencyCode,
+    options: { exchange?: string } = {}
+  ): Promise<number | undefined> {
+    const rate =
+      from === this.code ? 1 : await this.manager.getConvertRate(from, this.code, options)
+    if (rate === undefined) {
+      return undefined
+    }
+
+    return this.manager.roundMoney(Number(amount) * rate, this.code)
+  }
+
+  /**
+   * Format an amount in the display currency (or another one) using the
+   * locale of the request
+   */
+  format(amount: number, code: CurrencyCode = this.code): string {
+    return this.manager.formatCurrency({
+      amount: this.manager.roundMoney(Number(amount), code),
+      code,
+      locale: this.locale,
+    })
+  }
+
+  toJSON() {
+    return { code: this.code, locale: this.locale }
+  }
+}
@@ -0,0 +1,192 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { CurrencyService } from '@mixxtor/currencyx-js'
+import type {
+  BaseCurrencyExchange,
+  ConversionResult,
+  ConvertParams,
+  CurrencyCode,
+  CurrencyConfig,
+  ExchangeRatesParams,
+  ExchangeRatesResult,
+} from '@mixxtor/currencyx-js'
+import { FakeExchange } from './exchanges/fake.js'
+import type {
+  ExchangeOptions,
+  FallbackConversionResult,
+  PricedConversionResult,
+  PricingConfig,
+  ThrowOnErrorOptions,
+} from './types.js'
+import { convertMany, fetchRates, resolveExchange, toException } from './helpers.js'
+import { priceConversion, priceRate } from './pricing.js'
+
+/**
+ * Currency manager registered as "currency.manager". Extends the service
+ * of "@mixxtor/currencyx-js" with the ability to fake every exchange
+ * during tests, to throw the exceptions of failed results and to apply
+ * pricing rules on top of the exchange rates.
+ */
+export class CurrencyManager<
+  KnownExchanges extends Record<string, BaseCurrencyExchange> = Record<
+    string,
+    BaseCurrencyExchange
+  >,
+> extends CurrencyService<KnownExchanges> {
+  #fakeExchange?: FakeExchange
+  #throwOnError: boolean
+  #pricing?: PricingConfig
+
+  constructor(
+    config: CurrencyConfig<KnownExchanges> & ThrowOnErrorOptions & { pricing?: PricingConfig }
+  ) {
+    super(config)
+    this.#throwOnError = config.throwOnError ?? false
+    this.#pricing = config.pricing
+  }
+
+  /**
+   * Swap every exchange for an in-memory exchange seeded with the given
+   * rates, until `restore` is called
+   *
+   * @example
+   * const fake = currency.fake({ EUR: 0.5 })
+   * await checkout()
+   * fake.assertConverted({ from: 'USD', to: 'EUR' })
+   */
+  fake(rates: Record<string, number> = {}, base: CurrencyCode = 'USD'): FakeExchange {
+    this.#fakeExchange = new FakeExchange(rates, base)
+    return this.#fakeExchange
+  }
+
+  /**
+   * Restore the configured exchanges
+   */
+  restore() {
+    this.#fakeExchange = undefined
+  }
+
+  /**
+   * Pricing rules applied to the conversions, when configured
+   */
+  get pricing(): PricingConfig | undefined {
+    return this.#pricing
+  }
+
+  /**
+   * Whether the exchanges are currently faked
+   */
+  get isFaked(): boolean {
+    return !!this.#fakeExchange
+  }
+
+  use<ExchangeName extends keyof KnownExchanges>(
+    exchange: ExchangeName
+  ): KnownExchanges[ExchangeName] {
+    const instance = super.use(exchange)
+    return (this.#fakeExchange ?? instance) as KnownExchanges[ExchangeName]
+  }
+
+  async convert(
+    params: ConvertParams & ThrowOnErrorOptions & ExchangeOptions
+  ): Promise<PricedConversionResult> {
+    const { throwOnError, exchange, ...convertParams } = params
+    const result = await this.#exchange(exchange).convert(convertParams)
+
+    return this.#assertSuccess(await this.#price(result, exchange), throwOnError)
+  }
+
+  /**
+   * Convert a batch of amounts with the current exchange, using a single
+   * rate lookup. Failed items are reported in their own result, so the
+   * batch never throws because of them
+   *
+   * @example
+   * const results = await currency.convertMany([
+   *   { amount: 10, from: 'USD', to: 'EUR' },
+   *   { amount: 25, from: 'GBP', to: 'EUR' },
+   * ])
+   */
+  async convertMany(items: ConvertParams[]): Promise<PricedConversionResult[]> {
+    const results = await convertMany(this.use(this.getCurrentExchange()), items)
+    return Promise.all(results.map((result) => this.#price(result)))
+  }
+
+  /**
+   * Get the latest rates against the given base currency. The base of
+   * the shared exchange is left untouched, rates of exchanges answering
+   * against their own base are rebased instead. The fake exchange rebases
+   * its own rates and records the parameters as given
+   */
+  async getExchangeRates(
+    params?: ExchangeRatesParams & ThrowOnErrorOptions & ExchangeOptions
+  ): Promise<ExchangeRatesResult> {
+    const { throwOnError, exchange, ...ratesParams } = params ?? {}
+    const instance = this.#exchange(exchange)
+    const result =
+      instance instanceof FakeExchange
+        ? await instance.latestRates(ratesParams)
+        : await fetchRates(instance, ratesParams)
+
+    return this.#assertSuccess(result, throwOnError)
+  }
+
+  async latestRates(
+    params?: ExchangeRatesParams & ThrowOnErrorOptions & ExchangeOptions
+  ): Promise<ExchangeRatesResult> {
+    return this.getExchangeRates(params)
+  }
+
+  async getConvertRate(
+    from: CurrencyCode,
+    to: CurrencyCode,
+    options: ExchangeOptions = {}
+  ): Promise<number | undefined> {
+    const rate = await this.#exchange(options.exchange).getConvertRate(from, to)
+
+    return rate === undefined || !this.#pricing ? rate : priceRate(this.#pricing, from, to, rate)
+  }
+
+  /**
+   * Returns the given exchange, or the current one, without switching the
+   * exchange of the manager. The fake exchange is returned when faked
+   */
+  #exchange(name?: string): BaseCurrencyExchange {
+    return resolveExchange(this as CurrencyService, name ?? String(this.getCurrentExchange()))
+  }
+
+  /**
+   * Apply the pricing rules to a conversion result, when configured. The
+   * exchange that answered, possibly through a fallback chain, decides
+   * how precise results are rounded
+   */
+  async #price(result: FallbackConversionResult, name?: string): Promise<PricedConversionResult> {
+    if (!this.#pricing) {
+      return result
+    }
+
+    return priceConversion(this.#pricing, result, this.#exchange(result.exchange ?? name))
+  }
+
+  /**
+   * Throw the exception matching the error of a failed result, when
+   * enabled for the call or for the manager
+   */
+  #assertSuccess<Result extends { success: boolean; error?: ConversionResult['error'] }>(
+    result: Result,
+    throwOnError = this.#throwOnError
+  ): Result {
+    if (throwOnError && !result.success) {
+      throw toException(result.error)
+    }
+
+    return result
+  }
+}
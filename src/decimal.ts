@@ -0,0 +1,174 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { RoundingMode } from './types.js'
+
+/**
+ * Minimal arbitrary-precision decimal backed by a bigint coefficient
+ * and a base 10 scale. Only the operations needed for currency
+ * conversion are implemented.
+ *
+ * @example
+ * Decimal.from('0.1').times(Decimal.from('0.2')).toString() // '0.02'
+ */
+export class Decimal {
+  constructor(
+    readonly coefficient: bigint,
+    readonly scale: number
+  ) {}
+
+  /**
+   * Create a decimal from a number, a numeric string or another decimal.
+   * Numbers are parsed from their shortest string representation, so
+   * `0.1` becomes exactly `0.1`
+   */
+  static from(value: number | string | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value
+    }
+
+    const input = String(value).trim()
+    const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(input)
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal value: ${input}`)
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match
+    let coefficient = BigInt(`${integer}${fraction}` || '0')
+    let scale = fraction.length - Number(exponent)
+
+    if (scale < 0) {
+      coefficient *= 10n ** BigInt(-scale)
+      scale = 0
+    }
+
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale)
+  }
+
+  /**
+   * Divide two bigints and round the quotient using the given mode
+   */
+  static #divideAndRound(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+    if (denominator < 0n) {
+      numerator = -numerator
+      denominator = -denominator
+    }
+
+    const quotient = numerator / denominator
+    const remainder = numerator % denominator
+    if (remainder === 0n) {
+      return quotient
+    }
+
+    const negative = numerator < 0n
+    const awayFromZero = negative ? quotient - 1n : quotient + 1n
+    const twiceRemainder = (negative ? -remainder : remainder) * 2n
+
+    switch (mode) {
+      case 'floor':
+        return negative ? awayFromZero : quotient
+      case 'ceil':
+        return negative ? quotient : awayFromZero
+      case 'half-up':
+        return twiceRemainder >= denominator ? awayFromZero : quotient
+      case 'half-even':
+        if (twiceRemainder === denominator) {
+          return quotient % 2n === 0n ? quotient : awayFromZero
+        }
+        return twiceRemainder > denominator ? awayFromZero : quotient
+    }
+  }
+
+  /**
+   * Add another decimal. The result is exact
+   */
+  plus(other: number | string | Decimal): Decimal {
+    const operand = Decimal.from(other)
+    const scale = Math.max(this.scale, operand.scale)
+
+    return new Decimal(
+      this.coefficient * 10n ** BigInt(scale - this.scale) +
+        operand.coefficient * 10n ** BigInt(scale - operand.scale),
+      scale
+    )
+  }
+
+  /**
+   * Multiply by another decimal. The result is exact
+   */
+  times(other: number | string | Decimal): Decimal {
+    const operand = Decimal.from(other)
+    return new Decimal(this.coefficient * operand.coefficient, this.scale + operand.scale)
+  }
+
+  /**
+   * Divide by another decimal, keeping the given number of decimal places
+   */
+  div(other: number | string | Decimal, scale: number, mode: RoundingMode = 'half-even'): Decimal {
+    const divisor = Decimal.from(other)
+    if (divisor.coefficient === 0n) {
+      throw new Error('Division by zero')
+    }
+
+    /**
+     * (a / 10^as) / (b / 10^bs) at scale s = a * 10^(bs + s) / (b * 10^as)
+     */
+    const numerator = this.coefficient * 10n ** BigInt(divisor.scale + scale)
+    const denominator = divisor.coefficient * 10n ** BigInt(this.scale)
+
+    return new Decimal(Decimal.#divideAndRound(numerator, denominator, mode), scale)
+  }
+
+  /**
+   * Round to the given number of decimal places
+   */
+  round(decimals: number, mode: RoundingMode = 'half-even'): Decimal {
+    if (decimals >= this.scale) {
+      return new Decimal(this.coefficient * 10n ** BigInt(decimals - this.scale), decimals)
+    }
+
+    const divisor = 10n ** BigInt(this.scale - decimals)
+    return new Decimal(Decimal.#divideAndRound(this.coefficient, divisor, mode), decimals)
+  }
+
+  /**
+   * Remove insignificant trailing zeros from the fraction
+   */
+  trim(): Decimal {
+    let { coefficient, scale } = this
+    while (scale > 0 && coefficient % 10n === 0n) {
+      coefficient /= 10n
+      scale--
+    }
+
+    return new Decimal(coefficient, scale)
+  }
+
+  /**
+   * Returns the exact decimal string, keeping every decimal place
+   */
+  toString(): string {
+    const negative = this.coefficient < 0n
+    const digits = (negative ? -this.coefficient : this.coefficient)
+      .toString()
+      .padStart(this.scale + 1, '0')
+
+    const integer = digits.slice(0, digits.length - this.scale)
+    const fraction = this.scale > 0 ? `.${digits.slice(digits.length - this.scale)}` : ''
+
+    return `${negative ? '-' : ''}${integer}${fraction}`
+  }
+
+  /**
+   * Returns the closest JavaScript number
+   */
+  toNumber(): number {
+    return Number(this.toString())
+  }
+}
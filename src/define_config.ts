@@ -1,6 +1,16 @@
 import { exchanges as currencyExchanges } from '@mixxtor/currencyx-js'
-import type { DatabaseConfig, ServiceConfigProvider, ExchangeFactory } from './types.js'
+import type {
+  DatabaseConfig,
+  FallbackConfig,
+  StaticConfig,
+  RefreshConfig,
+  PricingConfig,
+  ServiceConfigProvider,
+  ExchangeFactory,
+} from './types.js'
 import { DatabaseExchange } from './exchanges/database.js'
+import { FallbackExchange } from './exchanges/fallback.js'
+import { StaticExchange } from './exchanges/static.js'
 import { configProvider } from '@adonisjs/core'
 import type { ConfigProvider } from '@adonisjs/core/types'
 
@@ -14,25 +24,57 @@ function database(config: DatabaseConfig): DatabaseExchange {
   }
 
   const dbConfig = {
-    model: config.model,
+    ...config,
     base: config.base || 'USD',
     columns: {
       code: 'code',
       rate: 'exchange_rate',
       ...config.columns,
     },
-    cache: config.cache,
   }
 
   return new DatabaseExchange(dbConfig)
 }
 
+/**
+ * Define an exchange answering from fixed rates, given inline or loaded
+ * from a JSON or CSV file
+ *
+ * @example
+ * exchanges.static({ base: 'USD', rates: { EUR: 0.85, GBP: 0.73 } })
+ * exchanges.static({ file: app.makePath('resources/rates.csv') })
+ */
+function staticRates(config: StaticConfig): StaticExchange {
+  if (!config.rates && !config.file) {
+    throw new Error('Static exchange requires either "rates" or "file"')
+  }
+
+  return new StaticExchange(config)
+}
+
+/**
+ * Define a fallback chain over other configured exchanges. The exchanges
+ * are tried in order until one of them succeeds
+ *
+ * @example
+ * exchanges.fallback(['database', 'google', 'fixer'])
+ */
+function fallback(names: string[], config: FallbackConfig = {}): FallbackExchange {
+  if (!names || names.length === 0) {
+    throw new Error('Fallback exchange requires at least one exchange name')
+  }
+
+  return new FallbackExchange(names, config)
+}
+
 /**
  * Exchange configuration helpers
  */
 export const exchanges = {
   ...currencyExchanges,
   database,
+  static: staticRates,
+  fallback,
 } as const
 
 /**
@@ -43,6 +85,9 @@ type ResolvedConfig<Exchanges extends Record<string, ExchangeFactory>> = {
   exchanges: {
     [K in keyof Exchanges]: Exchanges[K] extends ServiceConfigProvider<infer A> ? A : Exchanges[K]
   }
+  refresh?: RefreshConfig | false
+  throwOnError?: boolean
+  pricing?: PricingConfig
 }
 
 /**
@@ -53,8 +98,14 @@ export function defineConfig<Exchanges extends Record<string, any>>(
   config: ResolvedConfig<Exchanges>
 ): ConfigProvider<ResolvedConfig<Exchanges>> {
   return configProvider.create(async (_app) => {
-    const { exchanges: exchangesFactory, default: defaultExchange } = config
-    const exchangesNames = Object.keys(exchanges)
+    const {
+      exchanges: exchangesFactory,
+      default: defaultExchange,
+      refresh,
+      throwOnError,
+      pricing,
+    } = config
+    const exchangesNames = Object.keys(exchangesFactory)
 
     /**
      * Configured exchanges
@@ -70,9 +121,21 @@ export function defineConfig<Exchanges extends Record<string, any>>(
       exchangeExchanges[providerName] = exchange
     }
 
+    /**
+     * Bind fallback chains to the exchanges they refer to by name
+     */
+    for (const exchange of Object.values(exchangeExchanges)) {
+      if (exchange instanceof FallbackExchange) {
+        exchange.setExchanges(exchangeExchanges)
+      }
+    }
+
     return {
       default: defaultExchange,
       exchanges: exchangeExchanges,
+      refresh,
+      throwOnError,
+      pricing,
     } as ResolvedConfig<Exchanges>
   })
 }
@@ -0,0 +1,51 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { Exception } from '@adonisjs/core/exceptions'
+
+/**
+ * Raised when a currency is unknown to the exchange, or has no rate
+ */
+export const E_CURRENCY_NOT_FOUND = class extends Exception {
+  static status = 404
+  static code = 'E_CURRENCY_NOT_FOUND'
+}
+
+/**
+ * Raised when the amount to convert is invalid
+ */
+export const E_INVALID_AMOUNT = class extends Exception {
+  static status = 400
+  static code = 'E_INVALID_AMOUNT'
+}
+
+/**
+ * Raised when a stored or fetched rate is invalid
+ */
+export const E_INVALID_RATE = class extends Exception {
+  static status = 422
+  static code = 'E_INVALID_RATE'
+}
+
+/**
+ * Raised when the rates are older than the configured "maxAge"
+ */
+export const E_STALE_RATES = class extends Exception {
+  static status = 503
+  static code = 'E_STALE_RATES'
+}
+
+/**
+ * Raised when the exchange cannot answer, for example when the database
+ * or the remote API is unreachable
+ */
+export const E_EXCHANGE_UNAVAILABLE = class extends Exception {
+  static status = 503
+  static code = 'E_EXCHANGE_UNAVAILABLE'
+}
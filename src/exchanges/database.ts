@@ -1,15 +1,48 @@
 import type {
+  ConvertParams,
   CurrencyCode,
-  ConversionResult,
   ExchangeRatesResult,
-  ConvertParams,
   ExchangeRatesParams,
 } from '@mixxtor/currencyx-js'
 import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
-import type { DatabaseConfig } from '../types.js'
-import type { CacheService } from '@adonisjs/cache/types'
+import type {
+  DatabaseConfig,
+  DatabaseConversionResult,
+  DatabaseConvertParams,
+  DatabaseExchangeRatesResult,
+  HistoricalRatesParams,
+  HistoryConfig,
+  PrecisionConfig,
+  RatesSyncResult,
+  RatesValidationResult,
+  RateViolation,
+  StaleRatesEvent,
+  SyncRatesParams,
+} from '../types.js'
+import type { CacheOptions, CacheService } from '@adonisjs/cache/types'
+import type { Logger } from '@adonisjs/core/logger'
 import { PROVIDER_CURRENCY_MODEL } from '../symbols.js'
 import type { LucidModel } from '@adonisjs/lucid/types/model'
+import { DateTime } from 'luxon'
+import string from '@adonisjs/core/helpers/string'
+import { rebaseRates, errorCode, resultError, validateRate } from '../helpers.js'
+import { Decimal } from '../decimal.js'
+import { E_CURRENCY_NOT_FOUND } from '../errors.js'
+
+/**
+ * A stored rate along with the date it was recorded at
+ */
+type RateEntry = { rate: number; date?: Date }
+
+/**
+ * Collects whether a lookup was answered by the cache
+ */
+type CacheLookup = { cache?: 'hit' | 'miss' }
+
+/**
+ * Rows of the currency table kept in memory, indexed by currency code
+ */
+type Snapshot = { records: any[]; byCode: Map<string, any>; expiresAt: number }
 
 export class DatabaseExchange<Model extends LucidModel = LucidModel> extends BaseCurrencyExchange {
   declare [PROVIDER_CURRENCY_MODEL]: InstanceType<Model>
@@ -17,14 +50,23 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
   readonly name = 'database'
 
   protected model?: Model
+  protected historyModel?: LucidModel
   private columns: NonNullable<DatabaseConfig<Model>['columns']>
+  private historyColumns: NonNullable<HistoryConfig['columns']>
   private configModel?: DatabaseConfig<Model>['model']
   private cache?: CacheService
   private cacheSetupPromise?: Promise<void>
   private config: DatabaseConfig<Model>
+  protected logger?: Logger
 
   #defaultCacheTTL: number | string = '1h' // in milliseconds or human-readable string (e.g., '1d')
   #defaultCacheKeyPrefix = 'currency'
+  #defaultSnapshotTTL: number | string = '1m'
+  #snapshots = new Map<string, Snapshot>()
+  #snapshotLoads = new Map<string, Promise<{ snapshot: Snapshot; cache?: 'hit' | 'miss' }>>()
+  #snapshotGeneration = 0
+  #staleListeners: ((event: StaleRatesEvent) => void | Promise<void>)[] = []
+  #hookedModels = new WeakSet<object>()
 
   constructor(config: DatabaseConfig<Model>) {
     super()
@@ -38,6 +80,13 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
       ...config.columns,
     }
 
+    this.historyColumns = {
+      code: 'code',
+      rate: 'exchange_rate',
+      date: 'effective_at',
+      ...(config.history ? config.history.columns : {}),
+    }
+
     this.base = config.base || 'USD'
     this.configModel = config.model
 
@@ -58,10 +107,46 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
       throw new Error('Cache service configuration is required when cache is enabled')
     }
 
-    // Validate base currency format
+    const historyConfig = this.config.history
+    if (historyConfig && !historyConfig.model) {
+      throw new Error('History model configuration is required when history is enabled')
+    }
+
+    const tenancyConfig = this.config.tenancy
+    if (tenancyConfig && !tenancyConfig.column && !tenancyConfig.connection) {
+      throw new Error('Tenancy configuration requires either a "column" or a "connection"')
+    }
+  }
+
+  /**
+   * Precise decimal arithmetic configuration, undefined when disabled
+   */
+  get precision(): PrecisionConfig | undefined {
+    return this.config.precision || undefined
+  }
+
+  /**
+   * Report diagnostics through the given logger. Set by the provider with
+   * the application logger
+   */
+  useLogger(logger: Logger): this {
+    this.logger = logger
+
+    // Configuration warnings are reported once a logger is available
     if (this.base && !/^[A-Z]{3}$/.test(this.base)) {
-      console.warn(`Base currency '${this.base}' should be a 3-letter ISO currency code`)
+      logger.warn(`Base currency '${this.base}' should be a 3-letter ISO currency code`)
     }
+
+    return this
+  }
+
+  /**
+   * Stored rates are relative to the configured base currency, so it cannot
+   * be changed at runtime. The currency manager calls this method before
+   * `latestRates`, which rebases the rates to the requested base instead
+   */
+  setBase(_currency: CurrencyCode): this {
+    return this
   }
 
   /**
@@ -79,9 +164,52 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
 
     const importedModel = await this.configModel()
     this.model = 'default' in importedModel ? importedModel.default : importedModel
+    this.#registerInvalidationHooks(this.model)
     return this.model
   }
 
+  /**
+   * Clear the cached rates whenever a row of the model is saved or
+   * deleted. Bulk updates made through the query builder do not run
+   * model hooks and must call `refreshCurrencyData` instead
+   */
+  #registerInvalidationHooks(Model: Model) {
+    if (this.#hookedModels.has(Model) || typeof Model.after !== 'function') {
+      return
+    }
+
+    const invalidate = async () => {
+      try {
+        await this.clearCache()
+      } catch (error) {
+        this.logger?.warn({ err: error }, 'Unable to clear the currency cache')
+      }
+    }
+
+    Model.after('save', invalidate)
+    Model.after('delete', invalidate)
+    this.#hookedModels.add(Model)
+  }
+
+  /**
+   * Imports the history model from the provider, returns and caches it
+   * for further operations.
+   */
+  protected async getHistoryModel() {
+    const historyConfig = this.config.history
+    if (!historyConfig) {
+      throw new Error('Currency history not configured')
+    }
+
+    if (this.historyModel && !('hot' in import.meta)) {
+      return this.historyModel
+    }
+
+    const importedModel = await historyConfig.model()
+    this.historyModel = 'default' in importedModel ? importedModel.default : importedModel
+    return this.historyModel
+  }
+
   /**
    * Imports the cache service from the provider, returns and caches it
    * for further operations.
@@ -129,15 +257,84 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
     try {
       this.cache = await this.getCacheService()
     } catch (error) {
-      console.warn('Cache setup failed, continuing without cache:', error.message)
+      this.logger?.warn({ err: error }, 'Cache setup failed, continuing without cache')
     }
   }
 
   /**
    * Convert currency using database rates
    */
-  async convert(params: ConvertParams): Promise<ConversionResult> {
-    // Input validation
+  async convert(params: DatabaseConvertParams): Promise<DatabaseConversionResult> {
+    const { from, to, date } = params
+    const invalid = this.#checkConvertParams(params)
+    if (invalid) {
+      return invalid
+    }
+
+    // Same currency conversion
+    if (from === to) {
+      return this.#convertWith(params, new Map(), {})
+    }
+
+    try {
+      const lookup: CacheLookup = {}
+      const entries = date
+        ? await this.#getHistoricalRates([from, to], date)
+        : await this.#getCurrentRates([from, to], lookup)
+
+      return this.#convertWith(params, entries, lookup)
+    } catch (error) {
+      return this.#failedConversion(params, error)
+    }
+  }
+
+  /**
+   * Convert a batch of amounts at the current rates. The rates of every
+   * code are read at once, from the cached currency list when the cache
+   * is enabled, or with a single query otherwise. Results are returned in
+   * the order of the items, each with its own error
+   */
+  async convertMany(items: ConvertParams[]): Promise<DatabaseConversionResult[]> {
+    const pending = items.filter((item) => !this.#checkConvertParams(item) && item.from !== item.to)
+    const lookup: CacheLookup = {}
+    let entries = new Map<string, RateEntry>()
+    let failure: unknown
+
+    if (pending.length) {
+      try {
+        const codes = [...new Set(pending.flatMap(({ from, to }) => [from, to]))]
+        entries = await this.#getCurrentRates(codes, lookup, !!this.config.cache)
+
+        // Notify the stale listeners once for the whole batch
+        this.#checkStaleness(new Map([...entries].filter(([code]) => codes.includes(code))))
+      } catch (error) {
+        failure = error
+      }
+    }
+
+    return items.map((item) => {
+      const invalid = this.#checkConvertParams(item)
+      if (invalid) {
+        return invalid
+      }
+
+      try {
+        if (failure && item.from !== item.to) {
+          throw failure
+        }
+
+        return this.#convertWith(item, entries, lookup, false)
+      } catch (error) {
+        return this.#failedConversion(item, error)
+      }
+    })
+  }
+
+  /**
+   * Returns a failed result when the amount or the currency codes of a
+   * conversion are invalid
+   */
+  #checkConvertParams(params: ConvertParams): DatabaseConversionResult | undefined {
     const { amount, from, to } = params
     if (!amount || amount <= 0) {
       return {
@@ -145,7 +342,7 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
         query: { from, to, amount },
         info: { timestamp: Date.now() },
         date: new Date().toISOString(),
-        error: { info: 'Invalid amount: must be greater than 0' },
+        error: resultError('E_INVALID_AMOUNT', 'Invalid amount: must be greater than 0'),
       }
     }
 
@@ -155,11 +352,26 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
         query: { from, to, amount },
         info: { timestamp: Date.now() },
         date: new Date().toISOString(),
-        error: { info: 'Invalid currency codes: from and to are required' },
+        error: resultError(
+          'E_CURRENCY_NOT_FOUND',
+          'Invalid currency codes: from and to are required'
+        ),
       }
     }
+  }
 
-    const result: ConversionResult = {
+  /**
+   * Convert an amount using the rates read from the database. Shared by
+   * `convert` and `convertMany`
+   */
+  #convertWith(
+    params: DatabaseConvertParams,
+    entries: Map<string, RateEntry>,
+    lookup: CacheLookup,
+    notify = true
+  ): DatabaseConversionResult {
+    const { amount, from, to, date } = params
+    const result: DatabaseConversionResult = {
       success: false,
       query: { from, to, amount },
       info: { timestamp: Date.now(), rate: 1 },
@@ -170,107 +382,575 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
     // Same currency conversion
     if (from === to) {
       result.success = true
+      if (this.config.precision) {
+        this.#applyPreciseConversion(result, Decimal.from(1))
+      }
       return result
     }
 
-    try {
-      const currencies = await this.#getCurrenciesByCodes([from, to])
-      const fromCurrency = currencies?.find((c) => this.#getCurrencyCode(c) === from)
-      const toCurrency = currencies?.find((c) => this.#getCurrencyCode(c) === to)
-
-      if (!fromCurrency || !toCurrency) {
-        return {
-          ...result,
-          error: {
-            info: `Currency not found: ${!fromCurrency ? from : to}`,
-          },
-        }
-      }
+    const fromEntry = entries.get(from)
+    const toEntry = entries.get(to)
 
-      const fromRate = this.#getCurrencyRate(fromCurrency)
-      const toRate = this.#getCurrencyRate(toCurrency)
-      const updatedAt =
-        this.#getCurrencyUpdatedAt(fromCurrency) || this.#getCurrencyUpdatedAt(toCurrency)
+    if (!fromEntry || !toEntry) {
+      const missing = !fromEntry ? from : to
+      return {
+        ...result,
+        error: resultError(
+          'E_CURRENCY_NOT_FOUND',
+          date
+            ? `No historical rate found for ${missing} at or before ${new Date(date).toISOString()}`
+            : `Currency not found: ${missing}`
+        ),
+      }
+    }
 
-      if (!fromRate || !toRate) {
-        return {
-          ...result,
-          error: {
-            info: 'Invalid exchange rates found in database',
-          },
-        }
+    const pair = new Map([
+      [from, fromEntry],
+      [to, toEntry],
+    ])
+    const fromRate = fromEntry.rate
+    const toRate = toEntry.rate
+    const updatedAt = fromEntry.date || toEntry.date
+
+    // Historical conversions are expected to use old rates
+    const stale = date ? undefined : this.#checkStaleness(pair, notify)
+    if (stale && stale.action === 'fail') {
+      return {
+        ...result,
+        stale: true,
+        error: resultError('E_STALE_RATES', this.#staleMessage(stale), 'stale_rates'),
       }
+    }
 
-      // Conversion formula: amount * (1/fromCurrencyRate) * toCurrencyRate
-      const convertRate = (1 / fromRate) * toRate
-      const convertAmount = amount * convertRate
+    const violations = this.#validateEntries(pair)
+    if (violations.length) {
+      return {
+        ...result,
+        violations,
+        error: resultError(
+          'E_INVALID_RATE',
+          `Invalid exchange rates found in database: ${violations.map((violation) => violation.message).join(', ')}`
+        ),
+      }
+    }
 
-      result.success = true
+    // Conversion formula: amount * (toCurrencyRate / fromCurrencyRate)
+    if (this.config.precision) {
+      this.#applyPreciseConversion(result, this.#divide(toRate, fromRate))
+    } else {
+      const convertRate = this.#rebase({ [from]: fromRate, [to]: toRate }, from)[to]
       result.info.rate = convertRate
-      result.result = convertAmount
+      result.result = amount * convertRate
+    }
 
-      if (updatedAt) {
-        const timestamp = new Date(updatedAt).getTime()
-        result.info.timestamp = timestamp
-        result.date = new Date(updatedAt).toISOString()
-      }
+    result.success = true
+    if (this.config.maxAge !== undefined && !date) {
+      result.stale = !!stale
+    }
 
-      return result
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown database error'
-      return {
-        success: false,
-        query: { from, to, amount },
-        info: { timestamp: Date.now() },
-        date: new Date().toISOString(),
-        error: {
-          info: errorMessage,
-          type: 'database_error',
-        },
-      }
+    if (lookup.cache) {
+      result.cache = lookup.cache
+    }
+
+    if (updatedAt) {
+      const timestamp = new Date(updatedAt).getTime()
+      result.info.timestamp = timestamp
+      result.date = new Date(updatedAt).toISOString()
+    }
+
+    return result
+  }
+
+  /**
+   * Failed conversion result for a thrown error
+   */
+  #failedConversion(params: ConvertParams, error: unknown): DatabaseConversionResult {
+    const { amount, from, to } = params
+    const errorMessage = error instanceof Error ? error.message : 'Unknown database error'
+    return {
+      success: false,
+      query: { from, to, amount },
+      info: { timestamp: Date.now() },
+      date: new Date().toISOString(),
+      error: resultError(errorCode(error), errorMessage, 'database_error'),
+    }
+  }
+
+  /**
+   * Returns the tenant of the current lookup, or undefined when tenancy is
+   * disabled or no tenant is resolved
+   */
+  #currentTenant(): string | undefined {
+    const tenant = this.config.tenancy?.resolve()
+    return tenant === undefined || tenant === null || tenant === '' ? undefined : String(tenant)
+  }
+
+  /**
+   * Query the currencies available for conversions, honouring the
+   * "status" column and the "scope" callback. Reads the global rates, or
+   * the rates of the given tenant
+   */
+  #scopedQuery(Model: Model, tenant?: string) {
+    const { tenancy } = this.config
+    const connection = tenant === undefined ? undefined : tenancy?.connection?.(tenant)
+    const query = Model.query(connection ? { connection } : undefined).select(
+      Object.values(this.columns)
+    )
+
+    // Global rates have no tenant
+    if (tenancy?.column && tenant === undefined) {
+      query.whereNull(tenancy.column)
+    } else if (tenancy?.column) {
+      query.where(tenancy.column, tenant!)
+    }
+
+    if (this.columns.status) {
+      query.where(this.columns.status, true)
+    }
+
+    this.config.scope?.(query)
+    return query
+  }
+
+  /**
+   * Query the global rows of the currency table, leaving out the rows of
+   * the tenants when they share the table
+   */
+  #globalQuery(Model: Model) {
+    const query = Model.query()
+    if (this.config.tenancy?.column) {
+      query.whereNull(this.config.tenancy.column)
+    }
+
+    return query
+  }
+
+  /**
+   * Whether lookups are served from the in-process snapshot. Enabled by
+   * default along with the cache only, so that disabling the cache keeps
+   * every lookup reading the table
+   */
+  #usesSnapshot(): boolean {
+    const { snapshot, cache } = this.config
+    return snapshot === undefined ? !!cache : snapshot !== false
+  }
+
+  async #currencyList(useCache = true, lookup?: CacheLookup): Promise<any[]> {
+    const tenant = this.#currentTenant()
+    if (useCache && this.#usesSnapshot()) {
+      const { records } = await this.#getSnapshot(tenant, lookup)
+      return records
     }
+
+    return this.#loadCurrencyList(tenant, useCache, lookup)
+  }
+
+  /**
+   * Read the global currency list, overridden by the rows of the tenant
+   */
+  async #loadCurrencyList(tenant: string | undefined, useCache: boolean, lookup?: CacheLookup) {
+    const global = (await this.#queryCurrencyList(undefined, useCache, lookup)) || []
+    if (tenant === undefined) {
+      return global
+    }
+
+    return this.#withOverrides(global, await this.#queryCurrencyList(tenant, useCache, lookup))
   }
 
-  async #currencyList(useCache = true) {
+  /**
+   * Read the currency list of a tenant, or the global one, through the
+   * cache or from the database
+   */
+  async #queryCurrencyList(tenant: string | undefined, useCache: boolean, lookup?: CacheLookup) {
     // Ensure cache is setup before using it
     await this.#ensureCacheSetup()
 
-    const Model = await this.getModel()
-    const query = Model.query().select(Object.values(this.columns))
+    const query = this.#scopedQuery(await this.getModel(), tenant)
 
     if (!useCache || !this.cache || !this.config.cache) {
       return await query
     }
 
-    const { prefix = this.#defaultCacheKeyPrefix, ttl = this.#defaultCacheTTL } = this.config.cache
+    const { ttl = this.#defaultCacheTTL } = this.config.cache
 
-    return await this.cache.getOrSet({ key: prefix, factory: () => query, ttl })
+    return await this.#getOrSet(this.#cacheKey(tenant, 'all'), () => query, ttl, lookup)
+  }
+
+  /**
+   * Replace the global rows by the rows of a tenant having the same code
+   */
+  #withOverrides(global: any[], overrides: any[] = []): any[] {
+    const records = new Map(global.map((record) => [this.#getCurrencyCode(record), record]))
+    for (const record of overrides) {
+      records.set(this.#getCurrencyCode(record), record)
+    }
+
+    return [...records.values()]
+  }
+
+  /**
+   * Cache key of a tenant. The keys of every tenant live in the namespace
+   * of the exchange, so that clearing the cache invalidates them all
+   */
+  #cacheKey(tenant: string | undefined, key: string): string {
+    return tenant === undefined ? key : `tenant:${tenant}:${key}`
   }
 
   /**
-   * Get specific currencies by codes (optimized for targeted queries)
+   * Get the in-process snapshot of the currency table of a tenant, loading
+   * it once expired. Concurrent loads share a single query or cache read
    */
-  async #getCurrenciesByCodes(codes: string[], useCache = true): Promise<any[]> {
+  async #getSnapshot(tenant: string | undefined, lookup?: CacheLookup): Promise<Snapshot> {
+    const key = tenant ?? ''
+    const current = this.#snapshots.get(key)
+    if (current && current.expiresAt > Date.now()) {
+      if (lookup && this.config.cache) {
+        lookup.cache = 'hit'
+      }
+      return current
+    }
+
+    let load = this.#snapshotLoads.get(key)
+    if (!load) {
+      load = this.#loadSnapshot(tenant).finally(() => {
+        if (this.#snapshotLoads.get(key) === load) {
+          this.#snapshotLoads.delete(key)
+        }
+      })
+      this.#snapshotLoads.set(key, load)
+    }
+
+    const { snapshot, cache } = await load
+    if (lookup && cache) {
+      lookup.cache = cache
+    }
+
+    return snapshot
+  }
+
+  /**
+   * Load the snapshot through the cache. A snapshot loaded while the cache
+   * was being cleared is returned to the pending lookups, but not kept
+   */
+  async #loadSnapshot(
+    tenant: string | undefined
+  ): Promise<{ snapshot: Snapshot; cache?: 'hit' | 'miss' }> {
+    const generation = this.#snapshotGeneration
+    const { ttl = this.#defaultSnapshotTTL } = this.config.snapshot || {}
+    const lookup: CacheLookup = {}
+
+    const records = await this.#loadCurrencyList(tenant, true, lookup)
+    const now = Date.now()
+    const snapshot: Snapshot = {
+      records,
+      byCode: new Map(records.map((record: any) => [this.#getCurrencyCode(record), record])),
+      expiresAt: now + (typeof ttl === 'number' ? ttl : string.milliseconds.parse(ttl)),
+    }
+
+    if (generation === this.#snapshotGeneration) {
+      // Drop the expired snapshots of other tenants along the way
+      for (const [key, expired] of this.#snapshots) {
+        if (expired.expiresAt <= now) {
+          this.#snapshots.delete(key)
+        }
+      }
+
+      this.#snapshots.set(tenant ?? '', snapshot)
+    }
+
+    return { snapshot, cache: lookup.cache }
+  }
+
+  /**
+   * Drop the snapshots, so that the next lookups reload them
+   */
+  #invalidateSnapshot() {
+    this.#snapshots.clear()
+    this.#snapshotLoads.clear()
+    this.#snapshotGeneration++
+  }
+
+  /**
+   * Get specific currencies by codes. Served from the snapshot when
+   * enabled, or with targeted queries otherwise
+   */
+  async #getCurrenciesByCodes(
+    codes: string[],
+    useCache = true,
+    lookup?: CacheLookup
+  ): Promise<any[]> {
     if (!codes || codes.length === 0) {
-      return this.#currencyList(useCache)
+      return this.#currencyList(useCache, lookup)
     }
 
+    const tenant = this.#currentTenant()
+    if (useCache && this.#usesSnapshot()) {
+      const { byCode } = await this.#getSnapshot(tenant, lookup)
+      return codes.filter((code) => byCode.has(code)).map((code) => byCode.get(code))
+    }
+
+    const global = (await this.#queryCurrenciesByCodes(undefined, codes, useCache, lookup)) || []
+    if (tenant === undefined) {
+      return global
+    }
+
+    return this.#withOverrides(
+      global,
+      await this.#queryCurrenciesByCodes(tenant, codes, useCache, lookup)
+    )
+  }
+
+  /**
+   * Query the currencies of a tenant, or the global ones, having the
+   * given codes
+   */
+  async #queryCurrenciesByCodes(
+    tenant: string | undefined,
+    codes: string[],
+    useCache: boolean,
+    lookup?: CacheLookup
+  ): Promise<any[]> {
     // Ensure cache is setup before using it
     await this.#ensureCacheSetup()
 
-    const Model = await this.getModel()
-    const query = Model.query()
-      .select(Object.values(this.columns))
-      .whereIn(this.columns.code, codes)
+    const query = this.#scopedQuery(await this.getModel(), tenant).whereIn(this.columns.code, codes)
 
     if (!useCache || !this.cache || !this.config.cache) {
       return await query
     }
 
-    const { prefix = this.#defaultCacheKeyPrefix, ttl = this.#defaultCacheTTL } = this.config.cache
-    const cacheKey = `${prefix}_${codes.sort().join('_')}`
+    const { ttl = this.#defaultCacheTTL } = this.config.cache
+    const cacheKey = this.#cacheKey(tenant, [...codes].sort().join('_'))
+
+    return await this.#getOrSet(cacheKey, () => query, ttl, lookup)
+  }
+
+  /**
+   * Every cache key of the exchange lives in the namespace named after the
+   * configured prefix, so that clearing the namespace invalidates the full
+   * list as well as every per-pair key derived from it
+   */
+  #cacheNamespace() {
+    const prefix = (this.config.cache && this.config.cache.prefix) || this.#defaultCacheKeyPrefix
+    return this.cache!.namespace(prefix)
+  }
+
+  /**
+   * Read through the cache, recording whether the value was cached
+   */
+  async #getOrSet(
+    key: string,
+    factory: () => Promise<any[]> | any[],
+    ttl: CacheOptions['ttl'],
+    lookup?: CacheLookup
+  ): Promise<any[]> {
+    let miss = false
+    const value = await this.#cacheNamespace().getOrSet({
+      key,
+      factory: () => {
+        miss = true
+        return factory()
+      },
+      ttl,
+    })
+
+    // A lookup reading several keys only hits when every key is cached
+    if (lookup) {
+      lookup.cache = miss || lookup.cache === 'miss' ? 'miss' : 'hit'
+    }
+
+    return value
+  }
+
+  /**
+   * Get the stored rates of the given codes keyed by currency code. Reads
+   * the full currency list instead when `fromList` is true, sharing its
+   * cache key
+   */
+  async #getCurrentRates(
+    codes: string[],
+    lookup?: CacheLookup,
+    fromList = false
+  ): Promise<Map<string, RateEntry>> {
+    const currencies = fromList
+      ? await this.#currencyList(true, lookup)
+      : await this.#getCurrenciesByCodes(codes, true, lookup)
+    const entries = new Map<string, RateEntry>()
+
+    for (const record of currencies || []) {
+      const updatedAt = this.#getCurrencyUpdatedAt(record)
+      entries.set(this.#getCurrencyCode(record), {
+        rate: this.#getCurrencyRate(record),
+        date: updatedAt ? new Date(updatedAt) : undefined,
+      })
+    }
+
+    return entries
+  }
+
+  /**
+   * Get the closest historical rate at or before the given date for
+   * each code, keyed by currency code. Every code is returned when
+   * no codes are given
+   */
+  async #getHistoricalRates(
+    codes: string[] | undefined,
+    date: Date | string
+  ): Promise<Map<string, RateEntry>> {
+    const HistoryModel = await this.getHistoryModel()
+    const { code, rate, date: dateColumn } = this.historyColumns
+
+    const query = HistoryModel.query()
+      .select([code, rate, dateColumn])
+      .where(dateColumn, '<=', this.#toDatabaseDate(HistoryModel, new Date(date)))
+      .orderBy(dateColumn, 'desc')
+
+    if (codes && codes.length > 0) {
+      query.whereIn(code, codes)
+    }
+
+    const entries = new Map<string, RateEntry>()
+    for (const row of await query.pojo<Record<string, any>>()) {
+      if (!entries.has(row[code])) {
+        entries.set(row[code], { rate: Number(row[rate]), date: new Date(row[dateColumn]) })
+      }
+    }
+
+    /**
+     * The base currency is always worth 1, even when it has no history rows
+     */
+    if (!entries.has(this.base) && (!codes || codes.includes(this.base))) {
+      entries.set(this.base, { rate: 1 })
+    }
+
+    return entries
+  }
+
+  /**
+   * Register a listener invoked every time rates older than `maxAge`
+   * are served or rejected
+   */
+  onStale(listener: (event: StaleRatesEvent) => void | Promise<void>): this {
+    this.#staleListeners.push(listener)
+    return this
+  }
+
+  /**
+   * Check the age of the given rates against `maxAge` and notify the
+   * stale listeners, unless `notify` is false. The base currency is
+   * ignored, since its rate is always 1
+   */
+  #checkStaleness(entries: Map<string, RateEntry>, notify = true): StaleRatesEvent | undefined {
+    const { maxAge, onStale = 'flag' } = this.config
+    if (maxAge === undefined) {
+      return
+    }
+
+    const maxAgeMs = typeof maxAge === 'number' ? maxAge : string.milliseconds.parse(maxAge)
+    const now = Date.now()
+    const codes: string[] = []
+    let oldest: Date | undefined
+
+    for (const [code, entry] of entries) {
+      if (code === this.base || !entry.date || now - entry.date.getTime() <= maxAgeMs) {
+        continue
+      }
+
+      codes.push(code)
+      if (!oldest || entry.date < oldest) {
+        oldest = entry.date
+      }
+    }
+
+    if (!oldest) {
+      return
+    }
+
+    const event: StaleRatesEvent = {
+      exchange: this.name,
+      codes,
+      updatedAt: oldest,
+      age: now - oldest.getTime(),
+      maxAge: maxAgeMs,
+      action: onStale,
+    }
+
+    for (const listener of notify ? this.#staleListeners : []) {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch(() => {})
+    }
 
-    return await this.cache.getOrSet({ key: cacheKey, factory: () => query, ttl })
+    return event
+  }
+
+  /**
+   * Check the given rates against the integrity rules
+   */
+  #validateEntries(entries: Map<string, RateEntry>): RateViolation[] {
+    const violations: RateViolation[] = []
+    for (const [code, entry] of entries) {
+      const violation = validateRate(code, entry.rate, { base: this.base })
+      if (violation) {
+        violations.push(violation)
+      }
+    }
+
+    return violations
+  }
+
+  /**
+   * Error message for stale rates
+   */
+  #staleMessage(event: StaleRatesEvent): string {
+    return `Exchange rates are stale: ${event.codes.join(', ')} last updated ${string.milliseconds.format(event.age)} ago`
+  }
+
+  /**
+   * Rebase rates stored against the exchange base currency to another
+   * base currency. Shared by every rate lookup, so that `latestRates`,
+   * `convert` and `getConvertRate` always agree
+   */
+  #rebase(stored: Record<string, number>, base: CurrencyCode): Record<string, number> {
+    if (base !== this.base && !stored[base]) {
+      throw new E_CURRENCY_NOT_FOUND(`Base currency not found: ${base}`)
+    }
+
+    return this.config.precision
+      ? rebaseRates(stored, this.base, base, (a, b) => this.#divide(a, b).toNumber())
+      : rebaseRates(stored, this.base, base)
+  }
+
+  /**
+   * Divide two rates with arbitrary-precision decimals
+   */
+  #divide(dividend: number, divisor: number): Decimal {
+    const { scale = 20 } = this.config.precision || {}
+    return Decimal.from(dividend).div(divisor, scale)
+  }
+
+  /**
+   * Multiply the amount by the rate with arbitrary-precision decimals
+   * and round the result to the minor unit of the target currency
+   */
+  #applyPreciseConversion(result: DatabaseConversionResult, rate: Decimal) {
+    const { rounding = 'half-even' } = this.config.precision || {}
+    const minorUnits = this.getByCode(result.query.to)?.decimal ?? 2
+    const converted = Decimal.from(result.query.amount).times(rate).round(minorUnits, rounding)
+
+    result.info.rate = rate.toNumber()
+    result.result = converted.toNumber()
+    result.decimal = {
+      rate: rate.trim().toString(),
+      result: converted.toString(),
+    }
+  }
+
+  /**
+   * Format a date the way the model's dialect stores timestamps
+   */
+  #toDatabaseDate(Model: LucidModel, date: Date): string {
+    return DateTime.fromJSDate(date).toFormat(Model.query().client.dialect.dateTimeFormat)
   }
 
   /**
@@ -281,10 +961,12 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
   }
 
   /**
-   * Helper method to get currency rate from a record
+   * Helper method to get currency rate from a record. Decimal columns are
+   * read as strings by some drivers, such as PostgreSQL and MySQL
    */
   #getCurrencyRate(record: any): number {
-    return record[this.columns.rate] as number
+    const rate = record[this.columns.rate]
+    return rate === undefined || rate === null ? rate : Number(rate)
   }
 
   /**
@@ -300,9 +982,9 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
    */
   async latestRates(
     params?: ExchangeRatesParams & { cache?: boolean }
-  ): Promise<ExchangeRatesResult> {
+  ): Promise<DatabaseExchangeRatesResult> {
     const { base = this.base, codes: currencyCodes, cache = true } = params || {}
-    const result: ExchangeRatesResult = {
+    const result: DatabaseExchangeRatesResult = {
       success: false,
       timestamp: new Date().getTime(),
       date: new Date().toISOString(),
@@ -312,16 +994,25 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
     }
 
     try {
-      const currencies = await this.#currencyList(cache)
+      const lookup: CacheLookup = {}
+      const currencies = await this.#currencyList(cache, lookup)
+      if (lookup.cache) {
+        result.cache = lookup.cache
+      }
 
       if (!currencies || currencies.length === 0) {
-        result.error = {
-          info: 'No currencies found in database',
-          type: 'database_error',
-        }
+        result.error = resultError(
+          'E_EXCHANGE_UNAVAILABLE',
+          'No currencies found in database',
+          'database_error'
+        )
         return result
       }
 
+      const stored: Record<string, number> = {}
+      const dates: Record<string, string> = {}
+      const relevant = new Map<string, RateEntry>()
+      const violations: RateViolation[] = []
       let latestDate: Date | undefined
 
       for (const record of currencies) {
@@ -329,15 +1020,33 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
         const rate = this.#getCurrencyRate(record)
         const updatedAt = this.#getCurrencyUpdatedAt(record)
 
-        if (!code || rate === undefined || rate === null) {
+        if (!code) {
           continue
         }
 
-        // Filter by currency codes if specified
-        if (!currencyCodes || currencyCodes.length === 0 || currencyCodes.includes(code)) {
-          result.rates[code] = rate
+        // The requested base takes part in every rebased rate
+        const isRelevant = code === base || !currencyCodes?.length || currencyCodes.includes(code)
+
+        // Rates breaking the integrity rules are left out, the base rate defaulting to 1
+        const violation = validateRate(code, rate, { base: this.base })
+        if (violation) {
+          if (isRelevant || code === this.base) {
+            violations.push(violation)
+          }
+          continue
+        }
+
+        stored[code] = rate
+        if (updatedAt) {
+          dates[code] = new Date(updatedAt).toISOString()
+        }
+
+        if (isRelevant) {
+          relevant.set(code, { rate, date: updatedAt ? new Date(updatedAt) : undefined })
+        }
 
-          // Track the latest update date
+        // Track the latest update date of the requested codes
+        if (!currencyCodes || currencyCodes.length === 0 || currencyCodes.includes(code)) {
           if (updatedAt) {
             const updatedAtDate = new Date(updatedAt)
             if (!latestDate || updatedAtDate > latestDate) {
@@ -347,43 +1056,360 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
         }
       }
 
+      // Stored rates are relative to the exchange base, rebase them to the requested base
+      const rates = this.#rebase(stored, base)
+      for (const [code, rate] of Object.entries(rates)) {
+        if (!currencyCodes || currencyCodes.length === 0 || currencyCodes.includes(code)) {
+          result.rates[code] = rate
+          if (dates[code]) {
+            result.updatedAt ??= {}
+            result.updatedAt[code] = dates[code]
+          }
+        }
+      }
+
       // Update result with latest date if found
       if (latestDate) {
         result.date = latestDate.toISOString()
         result.timestamp = latestDate.getTime()
       }
 
+      if (violations.length) {
+        result.violations = violations
+      }
+
+      const stale = this.#checkStaleness(relevant)
+      if (this.config.maxAge !== undefined) {
+        result.stale = !!stale
+      }
+
+      if (stale && stale.action === 'fail') {
+        result.rates = {} as Record<CurrencyCode, number>
+        result.error = resultError('E_STALE_RATES', this.#staleMessage(stale), 'stale_rates')
+        return result
+      }
+
       result.success = Object.keys(result.rates).length > 0
 
       if (!result.success) {
-        result.error = {
-          info: currencyCodes?.length
+        result.error = resultError(
+          currencyCodes?.length ? 'E_CURRENCY_NOT_FOUND' : 'E_INVALID_RATE',
+          currencyCodes?.length
             ? `No matching currencies found for codes: ${currencyCodes.join(', ')}`
             : 'No valid currencies found in database',
-          type: 'database_error',
+          'database_error'
+        )
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown database error'
+      result.error = resultError(errorCode(error), errorMessage, 'database_error')
+    }
+
+    return result
+  }
+
+  /**
+   * Get the rates that were effective at the given date. For every code,
+   * the closest history row at or before the date is used
+   */
+  async historicalRates(params: HistoricalRatesParams): Promise<ExchangeRatesResult> {
+    const { date, base = this.base, codes: currencyCodes } = params
+    const result: ExchangeRatesResult = {
+      success: false,
+      timestamp: new Date(date).getTime(),
+      date: new Date(date).toISOString(),
+      base: base,
+      rates: {} as Record<CurrencyCode, number>,
+      error: undefined,
+    }
+
+    try {
+      const codes = currencyCodes?.length ? [...new Set([...currencyCodes, base])] : undefined
+      const entries = await this.#getHistoricalRates(codes, date)
+      const stored: Record<string, number> = {}
+      let latestDate: Date | undefined
+
+      for (const [code, entry] of entries) {
+        stored[code] = entry.rate
+
+        if (!currencyCodes?.length || currencyCodes.includes(code)) {
+          if (entry.date && (!latestDate || entry.date > latestDate)) {
+            latestDate = entry.date
+          }
+        }
+      }
+
+      const rates = this.#rebase(stored, base)
+      for (const [code, rate] of Object.entries(rates)) {
+        if (!currencyCodes?.length || currencyCodes.includes(code)) {
+          result.rates[code] = rate
         }
       }
+
+      if (latestDate) {
+        result.date = latestDate.toISOString()
+        result.timestamp = latestDate.getTime()
+      }
+
+      result.success = Object.keys(result.rates).length > 0
+      if (!result.success) {
+        result.error = resultError(
+          'E_CURRENCY_NOT_FOUND',
+          `No historical rates found at or before ${new Date(date).toISOString()}`,
+          'database_error'
+        )
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown database error'
-      result.error = {
-        info: errorMessage,
-        type: 'database_error',
+      result.error = resultError(errorCode(error), errorMessage, 'database_error')
+    }
+
+    return result
+  }
+
+  /**
+   * Write rates into the currency table. Incoming rates are rebased to
+   * the exchange base currency, existing rows are updated and missing
+   * rows are created. When history is enabled, every synced rate is also
+   * appended to the history table. The cache is refreshed once the
+   * writes are done.
+   */
+  async syncRates(params: SyncRatesParams): Promise<RatesSyncResult> {
+    const { dryRun = false } = params
+    const result: RatesSyncResult = {
+      success: false,
+      base: this.base,
+      dryRun,
+      changes: [],
+      failures: [],
+      violations: [],
+    }
+
+    let rates: Record<string, number>
+    try {
+      rates = rebaseRates(params.rates, params.base, this.base)
+    } catch (error) {
+      result.failures.push({ code: this.base, error: error.message })
+      return result
+    }
+
+    const Model = await this.getModel()
+    const rows = await this.#globalQuery(Model)
+      .select([this.columns.code, this.columns.rate])
+      .whereIn(this.columns.code, Object.keys(rates))
+      .pojo<Record<string, any>>()
+
+    const stored = new Map<string, number>()
+    for (const row of rows) {
+      stored.set(this.#getCurrencyCode(row), Number(this.#getCurrencyRate(row)))
+    }
+
+    const now = new Date()
+    const maxChange = params.force ? undefined : this.config.validation?.maxChange
+    for (const [code, rate] of Object.entries(rates)) {
+      const previous = stored.get(code)
+      const violation = validateRate(code, rate, { base: this.base, previous, maxChange })
+      if (violation) {
+        result.violations.push(violation)
+        result.failures.push({ code, error: violation.message })
+        continue
       }
+
+      const status =
+        previous === undefined ? 'created' : previous === rate ? 'unchanged' : 'updated'
+
+      // Unchanged rows are written as well, to refresh their updated at timestamp
+      if (!dryRun) {
+        try {
+          await this.#writeRate(Model, code, rate, status === 'created', now)
+        } catch (error) {
+          result.failures.push({ code, error: error.message })
+          continue
+        }
+      }
+
+      result.changes.push({ code, previous, rate, status })
+    }
+
+    if (!dryRun && this.config.history && result.changes.length > 0) {
+      try {
+        await this.#appendHistory(result.changes, now)
+      } catch (error) {
+        for (const change of result.changes) {
+          result.failures.push({ code: change.code, error: error.message })
+        }
+      }
+    }
+
+    if (!dryRun && result.changes.length > 0) {
+      await this.refreshCurrencyData()
     }
 
+    result.success = result.failures.length === 0
     return result
   }
 
+  /**
+   * Update or insert a single rate row using the configured column mapping
+   */
+  async #writeRate(Model: Model, code: string, rate: number, create: boolean, now: Date) {
+    const modelColumns = new Set(
+      Array.from(Model.$columnsDefinitions?.values() ?? [], (column) => column.columnName)
+    )
+
+    const timestamp = this.#toDatabaseDate(Model, now)
+    const row: Record<string, any> = { [this.columns.rate]: rate }
+    if (this.columns.updated_at && modelColumns.has(this.columns.updated_at)) {
+      row[this.columns.updated_at] = timestamp
+    }
+
+    if (!create) {
+      await this.#globalQuery(Model).where(this.columns.code, code).update(row)
+      return
+    }
+
+    row[this.columns.code] = code
+    if (this.columns.created_at && modelColumns.has(this.columns.created_at)) {
+      row[this.columns.created_at] = timestamp
+    }
+
+    /**
+     * Fill the descriptive columns of the stub migration, since they
+     * are not nullable
+     */
+    const info = this.getByCode(code)
+    if (info && modelColumns.has('name')) row.name = info.name
+    if (info && modelColumns.has('symbol')) row.symbol = info.symbol
+
+    await Model.query().client.insertQuery().table(Model.table).insert(row)
+  }
+
+  /**
+   * Append synced rates to the history table
+   */
+  async #appendHistory(changes: RatesSyncResult['changes'], now: Date) {
+    const HistoryModel = await this.getHistoryModel()
+    const { code, rate, date } = this.historyColumns
+    const effectiveAt = this.#toDatabaseDate(HistoryModel, now)
+    const hasCreatedAt = Array.from(
+      HistoryModel.$columnsDefinitions?.values() ?? [],
+      (column) => column.columnName
+    ).includes('created_at')
+
+    const rows = changes.map((change) => ({
+      [code]: change.code,
+      [rate]: change.rate,
+      [date]: effectiveAt,
+      ...(hasCreatedAt ? { created_at: effectiveAt } : {}),
+    }))
+
+    await HistoryModel.query().client.insertQuery().table(HistoryModel.table).multiInsert(rows)
+  }
+
+  /**
+   * Read the number of active rows, the base currency rate and the newest
+   * update date of the currency table, bypassing the cache. Used by the
+   * health check
+   */
+  async inspect(): Promise<{ rows: number; baseRate?: number; updatedAt?: Date }> {
+    const records = await this.#scopedQuery(await this.getModel()).pojo<Record<string, any>>()
+
+    let baseRate: number | undefined
+    let updatedAt: Date | undefined
+    for (const record of records) {
+      if (this.#getCurrencyCode(record) === this.base) {
+        baseRate = Number(this.#getCurrencyRate(record))
+      }
+
+      const recordUpdatedAt = this.#getCurrencyUpdatedAt(record)
+      if (recordUpdatedAt && (!updatedAt || new Date(recordUpdatedAt) > updatedAt)) {
+        updatedAt = new Date(recordUpdatedAt)
+      }
+    }
+
+    return { rows: records.length, baseRate, updatedAt }
+  }
+
+  /**
+   * Check every row of the currency table against the integrity rules,
+   * bypassing the cache. When history is enabled, rates are checked
+   * against "maxChange" as well, the previous rate of a currency being
+   * the latest history rate recorded before its row was last updated
+   */
+  async validateRates(): Promise<RatesValidationResult> {
+    const Model = await this.getModel()
+    const records = await this.#globalQuery(Model)
+      .select(Object.values(this.columns))
+      .pojo<Record<string, any>>()
+
+    const { maxChange } = this.config.validation || {}
+    const previous = maxChange === undefined ? new Map() : await this.#previousRates(records)
+    const violations: RateViolation[] = []
+
+    for (const record of records) {
+      const code = this.#getCurrencyCode(record)
+      const violation = validateRate(code, this.#getCurrencyRate(record), {
+        base: this.base,
+        previous: previous.get(code),
+        maxChange,
+      })
+
+      if (violation) {
+        violations.push(violation)
+      }
+    }
+
+    return { success: violations.length === 0, base: this.base, rows: records.length, violations }
+  }
+
+  /**
+   * Get the latest history rate of each currency recorded before its
+   * row was last updated. Empty when history is not enabled
+   */
+  async #previousRates(records: Record<string, any>[]): Promise<Map<string, number>> {
+    const previous = new Map<string, number>()
+    if (!this.config.history || records.length === 0) {
+      return previous
+    }
+
+    const HistoryModel = await this.getHistoryModel()
+    const { code, rate, date } = this.historyColumns
+    const rows = await HistoryModel.query()
+      .select([code, rate, date])
+      .whereIn(
+        code,
+        records.map((record) => this.#getCurrencyCode(record))
+      )
+      .orderBy(date, 'desc')
+      .pojo<Record<string, any>>()
+
+    for (const record of records) {
+      const currencyCode = this.#getCurrencyCode(record)
+      const updatedAt = this.#getCurrencyUpdatedAt(record)
+      const row = rows.find(
+        (candidate) =>
+          candidate[code] === currencyCode &&
+          (!updatedAt || new Date(candidate[date]) < new Date(updatedAt))
+      )
+
+      if (row) {
+        previous.set(currencyCode, Number(row[rate]))
+      }
+    }
+
+    return previous
+  }
+
   /**
    * Clear the currency cache
    */
   async clearCache(): Promise<void> {
+    this.#invalidateSnapshot()
     if (!this.cache || !this.config.cache) {
       return
     }
 
-    const { prefix = this.#defaultCacheKeyPrefix } = this.config.cache
-    await this.cache.delete({ key: prefix })
+    await this.#cacheNamespace().clear()
   }
 
   /**
@@ -395,28 +1421,53 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
     await this.#currencyList(true)
   }
 
+  /**
+   * Get the codes of the currencies available for conversions, leaving
+   * out inactive currencies and invalid rates
+   */
+  async getSupportedCurrencies(): Promise<CurrencyCode[]> {
+    const currencies = await this.#currencyList()
+    return (currencies || [])
+      .filter(
+        (record) =>
+          !validateRate(this.#getCurrencyCode(record), this.#getCurrencyRate(record), {
+            base: this.base,
+          })
+      )
+      .map((record) => this.#getCurrencyCode(record) as CurrencyCode)
+  }
+
   /**
    * Get convert rate (required abstract method)
    */
   async getConvertRate(from: CurrencyCode, to: CurrencyCode): Promise<number | undefined> {
+    if (from === to) {
+      return 1
+    }
+
     try {
-      const currencies = await this.#getCurrenciesByCodes([from, to])
-      const fromCurrency = currencies?.find((c) => this.#getCurrencyCode(c) === from)
-      const toCurrency = currencies?.find((c) => this.#getCurrencyCode(c) === to)
+      const entries = await this.#getCurrentRates([from, to])
+      const fromRate = entries.get(from)?.rate
+      const toRate = entries.get(to)?.rate
 
-      if (!fromCurrency || !toCurrency) {
+      const stale = this.#checkStaleness(entries)
+      if (stale && stale.action === 'fail') {
         return undefined
       }
 
-      const fromRate = this.#getCurrencyRate(fromCurrency)
-      const toRate = this.#getCurrencyRate(toCurrency)
+      const violations = this.#validateEntries(entries)
+      if (violations.length) {
+        this.logger?.warn({ violations, from, to }, 'Invalid exchange rates found in database')
+        return undefined
+      }
 
-      if (fromRate && toRate && fromRate > 0 && toRate > 0) {
-        return (1 / fromRate) * toRate
+      if (fromRate && toRate) {
+        return this.#rebase({ [from]: fromRate, [to]: toRate }, from)[to]
       }
 
       return undefined
-    } catch {
+    } catch (error) {
+      this.logger?.warn({ err: error, from, to }, 'Unable to read the conversion rate')
       return undefined
     }
   }
@@ -434,6 +1485,7 @@ export class DatabaseExchange<Model extends LucidModel = LucidModel> extends Bas
       this.cacheSetupPromise = undefined
     }
 
+    this.#invalidateSnapshot()
     this.cache = undefined
     this.model = undefined
   }
@@ -0,0 +1,240 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { AssertionError } from 'node:assert'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type {
+  ConversionResult,
+  ConvertParams,
+  CurrencyCode,
+  ExchangeRatesParams,
+  ExchangeRatesResult,
+} from '@mixxtor/currencyx-js'
+import { rebaseRates, resultError } from '../helpers.js'
+
+/**
+ * Matches recorded calls by their parameters or using a callback
+ */
+type CallMatcher<Params> = Partial<Params> | ((params: Params) => boolean)
+
+/**
+ * In-memory exchange seeded with fixed rates, used by `currency.fake()`.
+ * Every conversion and rates request is recorded, so tests can assert
+ * on them without touching the database or the network.
+ */
+export class FakeExchange extends BaseCurrencyExchange {
+  readonly name = 'fake'
+
+  /**
+   * Recorded calls, in the order they were made
+   */
+  conversions: ConvertParams[] = []
+  rateRequests: ExchangeRatesParams[] = []
+
+  #rates: Record<string, number>
+
+  constructor(rates: Record<string, number> = {}, base: CurrencyCode = 'USD') {
+    super()
+
+    this.base = base
+    this.#rates = { ...rates, [base]: 1 }
+  }
+
+  /**
+   * Rates are stored against the base given to the constructor. The
+   * currency manager calls this method before `latestRates`, which
+   * rebases the rates to the requested base instead
+   */
+  setBase(_currency: CurrencyCode): this {
+    return this
+  }
+
+  /**
+   * Replace the rates, keeping the recorded calls
+   */
+  setRates(rates: Record<string, number>): this {
+    this.#rates = { ...rates, [this.base]: 1 }
+    return this
+  }
+
+  async convert(params: ConvertParams): Promise<ConversionResult> {
+    const { amount, from, to } = params
+    this.conversions.push({ ...params })
+
+    const rate = await this.getConvertRate(from, to)
+    if (rate === undefined) {
+      const missing = this.#rates[from] === undefined ? from : to
+      return this.createConversionResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_CURRENCY_NOT_FOUND', `Currency not found: ${missing}`)
+      )
+    }
+
+    return this.createConversionResult(amount, from, to, amount * rate, rate)
+  }
+
+  /**
+   * Convert a batch of amounts, recording every conversion
+   */
+  async convertMany(items: ConvertParams[]): Promise<ConversionResult[]> {
+    return Promise.all(items.map((item) => this.convert(item)))
+  }
+
+  async latestRates(params?: ExchangeRatesParams): Promise<ExchangeRatesResult> {
+    const base = params?.base || this.base
+    this.rateRequests.push({ ...params })
+
+    if (this.#rates[base] === undefined) {
+      return this.createExchangeRatesResult(
+        base,
+        {},
+        resultError('E_CURRENCY_NOT_FOUND', `Base currency not found: ${base}`)
+      )
+    }
+
+    const rates = rebaseRates(this.#rates, this.base, base)
+    if (params?.codes?.length) {
+      for (const code of Object.keys(rates)) {
+        if (!params.codes.includes(code)) {
+          delete rates[code]
+        }
+      }
+    }
+
+    return this.createExchangeRatesResult(base, rates)
+  }
+
+  async getConvertRate(from: CurrencyCode, to: CurrencyCode): Promise<number | undefined> {
+    const fromRate = this.#rates[from]
+    const toRate = this.#rates[to]
+    if (fromRate === undefined || toRate === undefined) {
+      return undefined
+    }
+
+    return toRate / fromRate
+  }
+
+  /**
+   * Returns the recorded calls matching the given matcher
+   */
+  #filter<Params extends object>(calls: Params[], matcher?: CallMatcher<Params>): Params[] {
+    if (!matcher) {
+      return calls
+    }
+
+    if (typeof matcher === 'function') {
+      return calls.filter(matcher)
+    }
+
+    return calls.filter((call) =>
+      Object.entries(matcher).every(([key, value]) => {
+        const actual = call[key as keyof Params]
+        return Array.isArray(value)
+          ? JSON.stringify(actual) === JSON.stringify(value)
+          : actual === value
+      })
+    )
+  }
+
+  /**
+   * Assert a conversion matching the given parameters was made
+   */
+  assertConverted(matcher: CallMatcher<ConvertParams>) {
+    if (!this.#filter(this.conversions, matcher).length) {
+      throw new AssertionError({
+        message: 'Expected a conversion matching the given parameters',
+        expected: [typeof matcher === 'function' ? '[Function]' : matcher],
+        actual: this.conversions,
+        operator: 'strictEqual',
+        stackStartFn: this.assertConverted,
+      })
+    }
+  }
+
+  /**
+   * Assert no conversion matching the given parameters was made
+   */
+  assertNotConverted(matcher: CallMatcher<ConvertParams>) {
+    if (this.#filter(this.conversions, matcher).length) {
+      throw new AssertionError({
+        message: 'Unexpected conversion matching the given parameters',
+        expected: [],
+        actual: this.#filter(this.conversions, matcher),
+        operator: 'strictEqual',
+        stackStartFn: this.assertNotConverted,
+      })
+    }
+  }
+
+  /**
+   * Assert the number of conversions, optionally matching the given
+   * parameters
+   */
+  assertConvertedCount(count: number, matcher?: CallMatcher<ConvertParams>) {
+    const actual = this.#filter(this.conversions, matcher).length
+    if (actual !== count) {
+      throw new AssertionError({
+        message: `Expected ${count} conversion(s), received ${actual}`,
+        expected: count,
+        actual,
+        operator: 'strictEqual',
+        stackStartFn: this.assertConvertedCount,
+      })
+    }
+  }
+
+  /**
+   * Assert no conversion was made
+   */
+  assertNothingConverted() {
+    if (this.conversions.length) {
+      throw new AssertionError({
+        message: `Expected no conversions, received ${this.conversions.length}`,
+        expected: [],
+        actual: this.conversions,
+        operator: 'strictEqual',
+        stackStartFn: this.assertNothingConverted,
+      })
+    }
+  }
+
+  /**
+   * Assert rates were requested, optionally matching the given parameters
+   */
+  assertRatesFetched(matcher?: CallMatcher<ExchangeRatesParams>) {
+    if (!this.#filter(this.rateRequests, matcher).length) {
+      throw new AssertionError({
+        message: 'Expected rates to be fetched',
+        expected: [typeof matcher === 'function' ? '[Function]' : (matcher ?? {})],
+        actual: this.rateRequests,
+        operator: 'strictEqual',
+        stackStartFn: this.assertRatesFetched,
+      })
+    }
+  }
+
+  /**
+   * Assert no rates were requested
+   */
+  assertNoRatesFetched() {
+    if (this.rateRequests.length) {
+      throw new AssertionError({
+        message: `Expected no rates to be fetched, received ${this.rateRequests.length} request(s)`,
+        expected: [],
+        actual: this.rateRequests,
+        operator: 'strictEqual',
+        stackStartFn: this.assertNoRatesFetched,
+      })
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import type { CurrencyCode, ConvertParams, ExchangeRatesParams } from '@mixxtor/currencyx-js'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type {
+  FallbackConfig,
+  FallbackConversionResult,
+  FallbackExchangeRatesResult,
+} from '../types.js'
+import { fetchRates, resultError } from '../helpers.js'
+
+/**
+ * Composite exchange that tries a chain of configured exchanges in order
+ * and answers with the first one that succeeds. The chain refers to the
+ * exchanges by name and is bound to their instances by `defineConfig`.
+ */
+export class FallbackExchange extends BaseCurrencyExchange {
+  readonly name = 'fallback'
+
+  #names: string[]
+  #exchanges?: Record<string, BaseCurrencyExchange>
+
+  constructor(names: string[], config: FallbackConfig = {}) {
+    super()
+
+    this.#names = names
+    this.base = config.base || 'USD'
+  }
+
+  /**
+   * Names of the exchanges in the chain, in the order they are tried
+   */
+  get chain(): string[] {
+    return [...this.#names]
+  }
+
+  /**
+   * Bind the exchanges referenced by the chain
+   */
+  setExchanges(exchanges: Record<string, BaseCurrencyExchange>): this {
+    for (const name of this.#names) {
+      const exchange = exchanges[name]
+      if (!exchange) {
+        throw new Error(`Fallback exchange refers to an unknown exchange '${name}'`)
+      }
+
+      if (exchange instanceof FallbackExchange) {
+        throw new Error(`Fallback exchange cannot include another fallback exchange '${name}'`)
+      }
+    }
+
+    this.#exchanges = exchanges
+    return this
+  }
+
+  /**
+   * Returns the exchanges of the chain as [name, instance] tuples
+   */
+  #getChain(): [string, BaseCurrencyExchange][] {
+    if (!this.#exchanges) {
+      throw new Error(
+        'Fallback exchange is not bound to any exchanges. Make sure it is defined using "defineConfig"'
+      )
+    }
+
+    return this.#names.map((name) => [name, this.#exchanges![name]])
+  }
+
+  /**
+   * Convert using the first exchange of the chain that succeeds
+   */
+  async convert(params: ConvertParams): Promise<FallbackConversionResult> {
+    const { amount, from, to } = params
+    const failures: string[] = []
+
+    for (const [name, exchange] of this.#getChain()) {
+      try {
+        const result = await exchange.convert(params)
+        if (result.success) {
+          return { ...result, exchange: name }
+        }
+
+        failures.push(`${name}: ${result.error?.info ?? 'unknown error'}`)
+      } catch (error) {
+        failures.push(`${name}: ${error instanceof Error ? error.message : 'unknown error'}`)
+      }
+    }
+
+    return this.createConversionResult(
+      amount,
+      from,
+      to,
+      undefined,
+      undefined,
+      resultError(
+        'E_EXCHANGE_UNAVAILABLE',
+        `All exchanges failed. ${failures.join('; ')}`,
+        'fallback_error'
+      )
+    )
+  }
+
+  /**
+   * Get the latest rates from the first exchange of the chain that
+   * succeeds. Rates are rebased when an exchange answers with
+   * another base currency than the requested one
+   */
+  async latestRates(params?: ExchangeRatesParams): Promise<FallbackExchangeRatesResult> {
+    const base = params?.base || this.base
+    const failures: string[] = []
+
+    for (const [name, exchange] of this.#getChain()) {
+      try {
+        const result = await fetchRates(exchange, { base, codes: params?.codes })
+        if (!result.success) {
+          failures.push(`${name}: ${result.error?.info ?? 'unknown error'}`)
+          continue
+        }
+
+        return { ...result, exchange: name }
+      } catch (error) {
+        failures.push(`${name}: ${error instanceof Error ? error.message : 'unknown error'}`)
+      }
+    }
+
+    return this.createExchangeRatesResult(
+      base,
+      {},
+      resultError(
+        'E_EXCHANGE_UNAVAILABLE',
+        `All exchanges failed. ${failures.join('; ')}`,
+        'fallback_error'
+      )
+    )
+  }
+
+  /**
+   * Get the conversion rate from the first exchange of the chain that
+   * returns one
+   */
+  async getConvertRate(from: CurrencyCode, to: CurrencyCode): Promise<number | undefined> {
+    for (const [, exchange] of this.#getChain()) {
+      try {
+        const rate = await exchange.getConvertRate(from, to)
+        if (rate !== undefined) {
+          return rate
+        }
+      } catch {
+        // Try the next exchange
+      }
+    }
+
+    return undefined
+  }
+}
@@ -0,0 +1,292 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type {
+  ConversionResult,
+  ConvertParams,
+  CurrencyCode,
+  ExchangeRatesParams,
+  ExchangeRatesResult,
+} from '@mixxtor/currencyx-js'
+import type { StaticConfig } from '../types.js'
+import { rebaseRates, errorCode, resultError } from '../helpers.js'
+import { E_CURRENCY_NOT_FOUND } from '../errors.js'
+
+/**
+ * Rates held by the exchange, relative to its base currency
+ */
+type RatesTable = { rates: Record<string, number>; updatedAt?: Date }
+
+/**
+ * Exchange answering from a fixed table of rates, given inline or loaded
+ * from a JSON or CSV file. Needs neither a database nor the network, and
+ * uses the same cross-rate semantics as the database exchange.
+ */
+export class StaticExchange extends BaseCurrencyExchange {
+  readonly name: string = 'static'
+
+  #config: StaticConfig
+  #table?: RatesTable
+  #loading?: Promise<RatesTable>
+
+  constructor(config: StaticConfig) {
+    super()
+
+    this.#config = config
+    this.base = config.base || 'USD'
+
+    if (config.rates) {
+      this.#table = this.#normalize(config.rates, config.updatedAt)
+    }
+  }
+
+  /**
+   * Stored rates are relative to the configured base currency, so it cannot
+   * be changed at runtime. The currency manager calls this method before
+   * `latestRates`, which rebases the rates to the requested base instead
+   */
+  setBase(_currency: CurrencyCode): this {
+    return this
+  }
+
+  /**
+   * Replace the rates of the exchange
+   */
+  setRates(rates: Record<string, number>, updatedAt?: Date | string): this {
+    this.#table = this.#normalize(rates, updatedAt)
+    this.#loading = undefined
+    return this
+  }
+
+  /**
+   * Read the rates file again
+   */
+  async reload(): Promise<void> {
+    this.#table = undefined
+    this.#loading = undefined
+    await this.#getTable()
+  }
+
+  /**
+   * Keep valid rates only and make sure the base has a rate of 1
+   */
+  #normalize(rates: Record<string, number | string>, updatedAt?: Date | string): RatesTable {
+    const normalized: Record<string, number> = {}
+    for (const [code, value] of Object.entries(rates)) {
+      const rate = Number(value)
+      if (Number.isFinite(rate) && rate > 0) {
+        normalized[code.trim().toUpperCase()] = rate
+      }
+    }
+
+    normalized[this.base] = 1
+    return { rates: normalized, updatedAt: updatedAt ? new Date(updatedAt) : undefined }
+  }
+
+  /**
+   * Returns the rates, loading them from the configured file on first use
+   */
+  async #getTable(): Promise<RatesTable> {
+    if (this.#table) {
+      return this.#table
+    }
+
+    if (!this.#config.file) {
+      throw new Error('Static exchange requires either "rates" or "file"')
+    }
+
+    if (!this.#loading) {
+      this.#loading = this.#loadFile(this.#config.file).catch((error) => {
+        // Reset the promise on error so it can be retried
+        this.#loading = undefined
+        throw error
+      })
+    }
+
+    this.#table = await this.#loading
+    return this.#table
+  }
+
+  /**
+   * Load rates from a JSON or CSV file. JSON files contain either a map of
+   * rates or an object with "rates" and an optional "updatedAt". CSV files
+   * contain "code,rate" rows, with an optional header
+   */
+  async #loadFile(file: string | URL): Promise<RatesTable> {
+    const path = file instanceof URL ? fileURLToPath(file) : file
+    const contents = await readFile(path, 'utf-8')
+
+    if (extname(path).toLowerCase() === '.csv') {
+      const rates: Record<string, string> = {}
+      for (const line of contents.split(/\r?\n/)) {
+        const [code, rate] = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''))
+        if (code && rate && !Number.isNaN(Number(rate))) {
+          rates[code] = rate
+        }
+      }
+
+      return this.#normalize(rates, this.#config.updatedAt)
+    }
+
+    const data = JSON.parse(contents)
+    if (data && typeof data.rates === 'object') {
+      return this.#normalize(data.rates, this.#config.updatedAt ?? data.updatedAt)
+    }
+
+    return this.#normalize(data, this.#config.updatedAt)
+  }
+
+  /**
+   * Convert a batch of amounts, the rates being loaded once
+   */
+  async convertMany(items: ConvertParams[]): Promise<ConversionResult[]> {
+    return Promise.all(items.map((item) => this.convert(item)))
+  }
+
+  /**
+   * Convert currency using the static rates
+   */
+  async convert(params: ConvertParams): Promise<ConversionResult> {
+    const { amount, from, to } = params
+    if (!amount || amount <= 0) {
+      return this.createConversionResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_INVALID_AMOUNT', 'Invalid amount: must be greater than 0')
+      )
+    }
+
+    if (!from || !to) {
+      return this.createConversionResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_CURRENCY_NOT_FOUND', 'Invalid currency codes: from and to are required')
+      )
+    }
+
+    try {
+      const { rates, updatedAt } = await this.#getTable()
+      const missing = [from, to].find((code) => rates[code] === undefined)
+      if (missing) {
+        return this.createConversionResult(
+          amount,
+          from,
+          to,
+          undefined,
+          undefined,
+          resultError('E_CURRENCY_NOT_FOUND', `Currency not found: ${missing}`)
+        )
+      }
+
+      const rate = from === to ? 1 : rebaseRates(rates, this.base, from)[to]
+      const result = this.createConversionResult(amount, from, to, amount * rate, rate)
+
+      if (updatedAt) {
+        result.info.timestamp = updatedAt.getTime()
+        result.date = updatedAt.toISOString()
+      }
+
+      return result
+    } catch (error) {
+      return this.createConversionResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError(
+          errorCode(error),
+          error instanceof Error ? error.message : 'Unknown error',
+          'static_error'
+        )
+      )
+    }
+  }
+
+  /**
+   * Get the static rates, rebased to the requested base currency
+   */
+  async latestRates(params?: ExchangeRatesParams): Promise<ExchangeRatesResult> {
+    const { base = this.base, codes } = params || {}
+
+    try {
+      const { rates: stored, updatedAt } = await this.#getTable()
+      if (stored[base] === undefined) {
+        throw new E_CURRENCY_NOT_FOUND(`Base currency not found: ${base}`)
+      }
+
+      const rates: Record<string, number> = {}
+      for (const [code, rate] of Object.entries(rebaseRates(stored, this.base, base))) {
+        if (!codes?.length || codes.includes(code)) {
+          rates[code] = rate
+        }
+      }
+
+      if (Object.keys(rates).length === 0) {
+        return this.createExchangeRatesResult(
+          base,
+          rates,
+          resultError(
+            'E_CURRENCY_NOT_FOUND',
+            `No matching currencies found for codes: ${codes!.join(', ')}`,
+            'static_error'
+          )
+        )
+      }
+
+      const result = this.createExchangeRatesResult(base, rates)
+      if (updatedAt) {
+        result.timestamp = updatedAt.getTime()
+        result.date = updatedAt.toISOString()
+      }
+
+      return result
+    } catch (error) {
+      return this.createExchangeRatesResult(
+        base,
+        {},
+        resultError(
+          errorCode(error),
+          error instanceof Error ? error.message : 'Unknown error',
+          'static_error'
+        )
+      )
+    }
+  }
+
+  /**
+   * Get the conversion rate between two currencies
+   */
+  async getConvertRate(from: CurrencyCode, to: CurrencyCode): Promise<number | undefined> {
+    if (from === to) {
+      return 1
+    }
+
+    try {
+      const { rates } = await this.#getTable()
+      if (rates[from] === undefined || rates[to] === undefined) {
+        return undefined
+      }
+
+      return rebaseRates(rates, this.base, from)[to]
+    } catch {
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import app from '@adonisjs/core/services/app'
+import string from '@adonisjs/core/helpers/string'
+import { BaseCheck, Result } from '@adonisjs/core/health'
+import type { HealthCheckResult } from '@adonisjs/core/types/health'
+import type CurrencyService from '@mixxtor/currencyx-js'
+import type { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import { DatabaseExchange } from './exchanges/database.js'
+import { resolveExchange } from './helpers.js'
+
+/**
+ * Health of a single exchange, shared in the health report
+ */
+type ExchangeHealth = {
+  status: HealthCheckResult['status']
+  message: string
+  [key: string]: any
+}
+
+/**
+ * Checks every configured exchange. Database exchanges must have a
+ * non-empty table with a base currency rate of 1 and recent rates, other
+ * exchanges must answer a rates request within the timeout.
+ *
+ * @example
+ * // start/health.ts
+ * export const healthChecks = new HealthChecks().register([
+ *   new CurrencyHealthCheck().warnWhenOlderThan('1d').failWhenOlderThan('1w'),
+ * ])
+ */
+export class CurrencyHealthCheck extends BaseCheck {
+  #manager?: CurrencyService
+  #names?: string[]
+  #warnAfter: string | number = '1d'
+  #failAfter?: string | number
+  #timeout: string | number = '5s'
+
+  /**
+   * Health check public name
+   */
+  name = 'Currency health check'
+
+  /**
+   * Uses the "currency.manager" binding when no manager is given
+   */
+  constructor(manager?: CurrencyService) {
+    super()
+    this.#manager = manager
+  }
+
+  /**
+   * Check the given exchanges only. Every configured exchange is checked
+   * by default
+   */
+  exchanges(names: string[]): this {
+    this.#names = names
+    return this
+  }
+
+  /**
+   * Define the age of the newest stored rate after which a warning should
+   * be reported
+   */
+  warnWhenOlderThan(duration: string | number): this {
+    this.#warnAfter = duration
+    return this
+  }
+
+  /**
+   * Define the age of the newest stored rate after which an error should
+   * be reported
+   */
+  failWhenOlderThan(duration: string | number): this {
+    this.#failAfter = duration
+    return this
+  }
+
+  /**
+   * Define how long an exchange may take to answer
+   */
+  timeout(duration: string | number): this {
+    this.#timeout = duration
+    return this
+  }
+
+  /**
+   * Reject when the promise does not settle within the timeout
+   */
+  async #withinTimeout<T>(promise: Promise<T>): Promise<T> {
+    const timeout = string.milliseconds.parse(this.#timeout)
+    let timer: NodeJS.Timeout | undefined
+
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${string.milliseconds.format(timeout)}`)),
+            timeout
+          )
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Check the currency table of a database exchange
+   */
+  async #checkDatabase(exchange: DatabaseExchange): Promise<ExchangeHealth> {
+    const { rows, baseRate, updatedAt } = await this.#withinTimeout(exchange.inspect())
+    const meta = {
+      base: exchange.base,
+      rows,
+      baseRate,
+      updatedAt: updatedAt?.toISOString(),
+    }
+
+    if (rows === 0) {
+      return { status: 'error', message: 'The currency table is empty', ...meta }
+    }
+
+    if (baseRate !== 1) {
+      return {
+        status: 'error',
+        message:
+          baseRate === undefined
+            ? `Base currency ${exchange.base} is missing`
+            : `Base currency ${exchange.base} has a rate of ${baseRate} instead of 1`,
+        ...meta,
+      }
+    }
+
+    if (!updatedAt) {
+      return { status: 'ok', message: 'Rates are available', ...meta }
+    }
+
+    const age = Date.now() - updatedAt.getTime()
+    const message = `Rates were updated ${string.milliseconds.format(age)} ago`
+
+    if (this.#failAfter !== undefined && age > string.milliseconds.parse(this.#failAfter)) {
+      return { status: 'error', message, age, ...meta }
+    }
+
+    if (age > string.milliseconds.parse(this.#warnAfter)) {
+      return { status: 'warning', message, age, ...meta }
+    }
+
+    return { status: 'ok', message, age, ...meta }
+  }
+
+  /**
+   * Check an exchange answers a rates request
+   */
+  async #checkExchange(exchange: BaseCurrencyExchange): Promise<ExchangeHealth> {
+    const target = exchange.base === 'EUR' ? 'USD' : 'EUR'
+    const start = performance.now()
+    const result = await this.#withinTimeout(
+      exchange.latestRates({ base: exchange.base, codes: [target] })
+    )
+    const latency = Math.round(performance.now() - start)
+
+    if (!result.success) {
+      return {
+        status: 'error',
+        message: result.error?.info ?? 'Unable to fetch rates',
+        base: exchange.base,
+        latency,
+      }
+    }
+
+    return { status: 'ok', message: 'Exchange answered', base: exchange.base, latency }
+  }
+
+  /**
+   * Check a single exchange, reporting thrown errors as failures
+   */
+  async #check(manager: CurrencyService, name: string): Promise<ExchangeHealth> {
+    try {
+      const exchange = resolveExchange(manager, name)
+      return exchange instanceof DatabaseExchange
+        ? await this.#checkDatabase(exchange)
+        : await this.#checkExchange(exchange)
+    } catch (error) {
+      return { status: 'error', message: error.message || 'Check failed' }
+    }
+  }
+
+  /**
+   * Executes the health check
+   */
+  async run(): Promise<HealthCheckResult> {
+    const manager = this.#manager ?? (await app.container.make('currency.manager'))
+    const names = this.#names ?? manager.getAvailableExchanges().map(String)
+
+    const checks = await Promise.all(names.map((name) => this.#check(manager, name)))
+    const exchanges = Object.fromEntries(names.map((name, index) => [name, checks[index]]))
+
+    const failing = names.filter((name) => exchanges[name].status === 'error')
+    if (failing.length) {
+      return Result.failed(`Unhealthy currency exchanges: ${failing.join(', ')}`).mergeMetaData({
+        exchanges,
+      })
+    }
+
+    const warnings = names.filter((name) => exchanges[name].status === 'warning')
+    if (warnings.length) {
+      return Result.warning(
+        `Currency exchanges with warnings: ${warnings.join(', ')}`
+      ).mergeMetaData({ exchanges })
+    }
+
+    return Result.ok('All currency exchanges are healthy').mergeMetaData({ exchanges })
+  }
+}
@@ -0,0 +1,385 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type CurrencyService from '@mixxtor/currencyx-js'
+import type {
+  BaseCurrencyExchange,
+  ConversionResult,
+  ConvertParams,
+  CurrencyCode,
+  ExchangeRatesParams,
+  ExchangeRatesResult,
+} from '@mixxtor/currencyx-js'
+import { Exception } from '@adonisjs/core/exceptions'
+import * as errors from './errors.js'
+import type { DatabaseExchange } from './exchanges/database.js'
+import type {
+  CurrencyErrorCode,
+  CurrencyResultError,
+  RatesSyncResult,
+  RateViolation,
+  RefreshConfig,
+  SyncRatesParams,
+} from './types.js'
+
+/**
+ * Rebase a map of rates expressed against one currency to another
+ * currency. Every rate is divided by the rate of the new base, using
+ * the optional `divide` function when floats are not precise enough.
+ *
+ * @example
+ * rebaseRates({ USD: 1, EUR: 0.5, GBP: 0.25 }, 'USD', 'EUR')
+ * // { USD: 2, EUR: 1, GBP: 0.5 }
+ */
+export function rebaseRates(
+  rates: Record<string, number>,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  divide: (dividend: number, divisor: number) => number = (dividend, divisor) => dividend / divisor
+): Record<string, number> {
+  const source: Record<string, number> = { [from]: 1, ...rates }
+  if (from === to) {
+    return source
+  }
+
+  const pivot = Number(source[to])
+  if (!pivot || !Number.isFinite(pivot) || pivot <= 0) {
+    throw new Error(`Cannot rebase rates from '${from}' to '${to}': missing '${to}' rate`)
+  }
+
+  const rebased: Record<string, number> = {}
+  for (const [code, rate] of Object.entries(source)) {
+    rebased[code] = divide(rate, pivot)
+  }
+
+  rebased[to] = 1
+  return rebased
+}
+
+/**
+ * Check a rate against the integrity rules. The base currency must have
+ * a rate of 1, rates must be positive finite numbers and, when both the
+ * previous rate and `maxChange` are given, must not change by more than
+ * `maxChange` percent
+ *
+ * @example
+ * validateRate('EUR', 1.8, { base: 'USD', previous: 0.9, maxChange: 20 })
+ * // { code: 'EUR', rule: 'max_change', ... }
+ */
+export function validateRate(
+  code: string,
+  value: unknown,
+  options: { base: CurrencyCode; previous?: number; maxChange?: number }
+): RateViolation | undefined {
+  const { base, previous, maxChange } = options
+  const rate = Number(value)
+
+  if (!Number.isFinite(rate) || rate <= 0) {
+    return { code, rule: 'invalid_rate', rate, message: `Invalid exchange rate: ${value}` }
+  }
+
+  if (code === base && rate !== 1) {
+    return {
+      code,
+      rule: 'base_rate',
+      rate,
+      message: `Base currency ${base} must have a rate of 1, got ${rate}`,
+    }
+  }
+
+  if (maxChange === undefined || !previous || code === base) {
+    return undefined
+  }
+
+  const change = (Math.abs(rate - previous) / previous) * 100
+  if (change > maxChange) {
+    return {
+      code,
+      rule: 'max_change',
+      rate,
+      previous,
+      message: `Rate of ${code} changed by ${change.toFixed(2)}% (from ${previous} to ${rate}), above the ${maxChange}% limit`,
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Returns a configured exchange instance by name without changing
+ * the exchange currently selected on the manager
+ */
+export function resolveExchange<Exchange extends BaseCurrencyExchange = BaseCurrencyExchange>(
+  manager: CurrencyService,
+  name: string
+): Exchange {
+  const current = manager.getCurrentExchange()
+  const exchange = manager.use(name)
+  manager.use(current)
+
+  return exchange as Exchange
+}
+
+/**
+ * Fetch the latest rates of an exchange against the given base currency,
+ * without switching the base of the exchange. The base rate is requested
+ * along with the codes, so that the rates can be rebased when the
+ * exchange answers against its own base, as the remote exchanges do
+ */
+export async function fetchRates(
+  exchange: BaseCurrencyExchange,
+  params: ExchangeRatesParams = {}
+): Promise<ExchangeRatesResult> {
+  const base = params.base || exchange.base
+  const requested = params.codes?.length ? params.codes : undefined
+  const codes = requested ? [...new Set([...requested, base])] : undefined
+
+  const result = await exchange.latestRates({ ...params, base, codes })
+  if (!result.success) {
+    return result
+  }
+
+  let rates: Record<string, number>
+  try {
+    rates = rebaseRates(result.rates, result.base, base)
+  } catch (error) {
+    return exchange['createExchangeRatesResult'](
+      base,
+      {},
+      resultError('E_CURRENCY_NOT_FOUND', error.message)
+    )
+  }
+
+  for (const code of Object.keys(rates)) {
+    if (requested && !requested.includes(code)) {
+      delete rates[code]
+    }
+  }
+
+  return { ...result, base, rates }
+}
+
+/**
+ * Fetch the latest rates of the "from" exchange against the base currency
+ * of the "into" database exchange and sync them. Codes the source does
+ * not return are reported as failures. Shared by the "currency:sync"
+ * command and the background refresher
+ */
+export async function syncFromExchange(
+  manager: CurrencyService,
+  options: Pick<RefreshConfig, 'from' | 'into' | 'codes'> &
+    Pick<SyncRatesParams, 'dryRun' | 'force'>
+): Promise<RatesSyncResult> {
+  const { from, into, codes, ...syncOptions } = options
+  const database = resolveExchange<DatabaseExchange>(manager, into)
+  const source = resolveExchange(manager, from)
+
+  /**
+   * Keep the base rate along with the requested codes
+   */
+  const latest = await fetchRates(source, {
+    base: database.base,
+    codes: codes?.length ? [...codes, database.base] : undefined,
+  })
+
+  if (!latest.success) {
+    throw new Error(`Unable to fetch rates from "${from}": ${latest.error?.info ?? 'unknown'}`)
+  }
+
+  const result = await database.syncRates({
+    base: latest.base,
+    rates: latest.rates,
+    ...syncOptions,
+  })
+  for (const code of codes ?? []) {
+    if (latest.rates[code] === undefined) {
+      result.failures.push({ code, error: `Rate not returned by "${from}"` })
+      result.success = false
+    }
+  }
+
+  return result
+}
+
+/**
+ * Convert a batch of amounts with a single rate lookup. Exchanges
+ * implementing `convertMany` use their own implementation, the rates of
+ * every code are fetched at once from the others. Results are returned in
+ * the order of the items, each with its own error
+ */
+export async function convertMany(
+  exchange: BaseCurrencyExchange & {
+    convertMany?(items: ConvertParams[]): Promise<ConversionResult[]>
+  },
+  items: ConvertParams[]
+): Promise<ConversionResult[]> {
+  if (typeof exchange.convertMany === 'function') {
+    return exchange.convertMany(items)
+  }
+
+  const createResult: BaseCurrencyExchange['createConversionResult'] = (...args) =>
+    exchange['createConversionResult'](...args)
+
+  const codes = [...new Set(items.flatMap(({ from, to }) => [from, to]))].filter(Boolean)
+  const latest = codes.length
+    ? await exchange.latestRates({ base: exchange.base, codes })
+    : undefined
+
+  return items.map(({ amount, from, to }) => {
+    if (!amount || amount <= 0) {
+      return createResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_INVALID_AMOUNT', 'Invalid amount: must be greater than 0')
+      )
+    }
+
+    if (!from || !to) {
+      return createResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_CURRENCY_NOT_FOUND', 'Invalid currency codes: from and to are required')
+      )
+    }
+
+    if (from === to) {
+      return createResult(amount, from, to, amount, 1)
+    }
+
+    if (!latest?.success) {
+      return createResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        latest?.error ?? resultError('E_EXCHANGE_UNAVAILABLE', 'Unable to fetch rates')
+      )
+    }
+
+    const rateOf = (code: CurrencyCode) => (code === latest.base ? 1 : latest.rates[code])
+    const missing = [from, to].find((code) => !rateOf(code))
+    if (missing) {
+      return createResult(
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        resultError('E_CURRENCY_NOT_FOUND', `Currency not found: ${missing}`)
+      )
+    }
+
+    const rate = rateOf(to) / rateOf(from)
+    return createResult(amount, from, to, amount * rate, rate)
+  })
+}
+
+/**
+ * Returns the preferred locale of an "Accept-Language" header, ignoring
+ * wildcards and locales unknown to the Intl API
+ *
+ * @example
+ * preferredLocale('fr-CH, fr;q=0.9, en;q=0.8') // 'fr-CH'
+ */
+export function preferredLocale(header?: string | null): string | undefined {
+  if (!header) {
+    return undefined
+  }
+
+  const locales = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const quality = params.find((param) => param.trim().startsWith('q='))
+      return { tag: tag.trim(), quality: quality ? Number(quality.trim().slice(2)) : 1 }
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  for (const { tag } of locales) {
+    try {
+      if (Intl.NumberFormat.supportedLocalesOf(tag).length) {
+        return tag
+      }
+    } catch {
+      // Skip malformed language tags
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Returns the currency of the country of a locale. Locales without a
+ * region are expanded to their most likely region, so "fr" gives "EUR"
+ *
+ * @example
+ * currencyForLocale(manager, 'en-GB') // 'GBP'
+ */
+export function currencyForLocale(
+  exchange: Pick<BaseCurrencyExchange, 'getByCountry'>,
+  locale: string
+): CurrencyCode | undefined {
+  try {
+    const region = new Intl.Locale(locale).maximize().region
+    if (!region) {
+      return undefined
+    }
+
+    /**
+     * The currency list refers to the United Kingdom as "UK" instead
+     * of its ISO 3166 code
+     */
+    return exchange.getByCountry(region === 'GB' ? 'UK' : region)?.code
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Error of a failed result, tagged with the code of the matching exception.
+ * The results of "@mixxtor/currencyx-js" only type the numeric codes of
+ * the remote APIs, so the error is narrowed to their error type
+ */
+export function resultError(code: CurrencyErrorCode, info: string, type?: string) {
+  const error: CurrencyResultError = { code, info, ...(type ? { type } : {}) }
+  return error as NonNullable<ConversionResult['error']>
+}
+
+/**
+ * Returns the code of a thrown error, defaulting to E_EXCHANGE_UNAVAILABLE
+ * for errors raised by the underlying database or network
+ */
+export function errorCode(error: unknown): CurrencyErrorCode {
+  const code = error instanceof Exception ? error.code : undefined
+  return code && Object.hasOwn(errors, code)
+    ? (code as CurrencyErrorCode)
+    : 'E_EXCHANGE_UNAVAILABLE'
+}
+
+/**
+ * Create the exception matching the error of a failed result. Errors
+ * without a known code, such as the errors of the remote exchanges, are
+ * reported as E_EXCHANGE_UNAVAILABLE
+ */
+export function toException(error?: CurrencyResultError): Exception {
+  const code = String(error?.code)
+  const ExceptionClass = Object.hasOwn(errors, code)
+    ? errors[code as CurrencyErrorCode]
+    : errors.E_EXCHANGE_UNAVAILABLE
+
+  return new ExceptionClass(error?.info ?? 'Unknown currency error')
+}
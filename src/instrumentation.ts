@@ -0,0 +1,314 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { BaseCurrencyExchange, ConversionResult, ConvertParams } from '@mixxtor/currencyx-js'
+import { DatabaseExchange } from './exchanges/database.js'
+import type {
+  CurrencyEvents,
+  DatabaseConversionResult,
+  DatabaseExchangeRatesResult,
+  RatesSyncResult,
+} from './types.js'
+import { errorCode } from './helpers.js'
+
+/**
+ * The subset of the AdonisJS emitter used to report currency events
+ */
+export interface CurrencyEmitter {
+  emit<Name extends keyof CurrencyEvents>(event: Name, data: CurrencyEvents[Name]): any
+}
+
+/**
+ * Name and emitter of every instrumented exchange. Kept outside of the
+ * wrapped methods, so that instrumenting an exchange twice (for example
+ * when the container is rebuilt in tests) only swaps the emitter
+ */
+const instrumented = new WeakMap<BaseCurrencyExchange, { name: string; emitter: CurrencyEmitter }>()
+
+/**
+ * Exchange of the batch conversion in progress, so that exchanges
+ * converting a batch item by item do not report every item twice
+ */
+const batches = new AsyncLocalStorage<BaseCurrencyExchange>()
+
+/**
+ * Emit an event without waiting for, or failing because of, its listeners
+ */
+function emit<Name extends keyof CurrencyEvents>(
+  exchange: BaseCurrencyExchange,
+  event: Name,
+  data: (name: string) => CurrencyEvents[Name]
+) {
+  const state = instrumented.get(exchange)
+  if (!state) {
+    return
+  }
+
+  Promise.resolve()
+    .then(() => state.emitter.emit(event, data(state.name)))
+    .catch(() => {})
+}
+
+/**
+ * Returns the message of an unknown thrown value
+ */
+function errorInfo(error: unknown) {
+  return {
+    code: errorCode(error),
+    info: error instanceof Error ? error.message : String(error),
+    type: 'exception',
+  }
+}
+
+/**
+ * Emit the events of a conversion, from its result
+ */
+function reportConversion(
+  exchange: BaseCurrencyExchange,
+  operation: 'convert' | 'convertMany',
+  { amount, from, to }: ConvertParams,
+  result: ConversionResult & Pick<DatabaseConversionResult, 'cache'>,
+  latency: number
+) {
+  if (result.cache === 'hit') {
+    emit(exchange, 'currency:cache_hit', (exchangeName) => ({
+      exchange: exchangeName,
+      operation,
+      from,
+      to,
+    }))
+  }
+
+  if (result.success) {
+    emit(exchange, 'currency:converted', (exchangeName) => ({
+      exchange: exchangeName,
+      from,
+      to,
+      amount,
+      result: result.result,
+      rate: result.info?.rate,
+      latency,
+      cache: result.cache,
+    }))
+  } else {
+    emit(exchange, 'currency:error', (exchangeName) => ({
+      exchange: exchangeName,
+      operation,
+      error: {
+        code: result.error?.code,
+        info: result.error?.info ?? 'unknown error',
+        type: result.error?.type,
+      },
+      from,
+      to,
+      latency,
+    }))
+  }
+}
+
+/**
+ * Wrap the methods of an exchange to emit "currency:*" events with the
+ * exchange name, the currency pair, the rate, the latency and the cache
+ * status. Results are returned untouched.
+ */
+export function instrumentExchange(
+  name: string,
+  exchange: BaseCurrencyExchange,
+  emitter: CurrencyEmitter
+): BaseCurrencyExchange {
+  const known = instrumented.has(exchange)
+  instrumented.set(exchange, { name, emitter })
+  if (known) {
+    return exchange
+  }
+
+  const convert = exchange.convert.bind(exchange)
+  exchange.convert = async (params) => {
+    /**
+     * Conversions of a batch are reported by "convertMany"
+     */
+    if (batches.getStore() === exchange) {
+      return convert(params)
+    }
+
+    const { from, to } = params
+    const start = performance.now()
+
+    try {
+      const result = await convert(params)
+      reportConversion(exchange, 'convert', params, result, performance.now() - start)
+
+      return result
+    } catch (error) {
+      emit(exchange, 'currency:error', (exchangeName) => ({
+        exchange: exchangeName,
+        operation: 'convert',
+        error: errorInfo(error),
+        from,
+        to,
+        latency: performance.now() - start,
+      }))
+      throw error
+    }
+  }
+
+  const batchExchange = exchange as BaseCurrencyExchange & {
+    convertMany?(items: ConvertParams[]): Promise<ConversionResult[]>
+  }
+  if (typeof batchExchange.convertMany === 'function') {
+    const convertMany = batchExchange.convertMany.bind(exchange)
+    batchExchange.convertMany = async (items) => {
+      const start = performance.now()
+
+      try {
+        const results = await batches.run(exchange, () => convertMany(items))
+        const latency = performance.now() - start
+        results.forEach((result, index) => {
+          reportConversion(exchange, 'convertMany', items[index], result, latency)
+        })
+
+        return results
+      } catch (error) {
+        emit(exchange, 'currency:error', (exchangeName) => ({
+          exchange: exchangeName,
+          operation: 'convertMany',
+          error: errorInfo(error),
+          latency: performance.now() - start,
+        }))
+        throw error
+      }
+    }
+  }
+
+  const latestRates = exchange.latestRates.bind(exchange)
+  exchange.latestRates = async (params) => {
+    const start = performance.now()
+
+    try {
+      const result: DatabaseExchangeRatesResult = await latestRates(params)
+      const latency = performance.now() - start
+
+      if (result.cache === 'hit') {
+        emit(exchange, 'currency:cache_hit', (exchangeName) => ({
+          exchange: exchangeName,
+          operation: 'latestRates',
+          base: result.base,
+        }))
+      }
+
+      if (result.success) {
+        emit(exchange, 'currency:rates_fetched', (exchangeName) => ({
+          exchange: exchangeName,
+          base: result.base,
+          codes: Object.keys(result.rates),
+          latency,
+          cache: result.cache,
+        }))
+      } else {
+        emit(exchange, 'currency:error', (exchangeName) => ({
+          exchange: exchangeName,
+          operation: 'latestRates',
+          error: {
+            code: result.error?.code,
+            info: result.error?.info ?? 'unknown error',
+            type: result.error?.type,
+          },
+          latency,
+        }))
+      }
+
+      return result
+    } catch (error) {
+      emit(exchange, 'currency:error', (exchangeName) => ({
+        exchange: exchangeName,
+        operation: 'latestRates',
+        error: errorInfo(error),
+        latency: performance.now() - start,
+      }))
+      throw error
+    }
+  }
+
+  const getConvertRate = exchange.getConvertRate.bind(exchange)
+  exchange.getConvertRate = async (from, to) => {
+    const start = performance.now()
+
+    try {
+      const rate = await getConvertRate(from, to)
+      if (rate === undefined) {
+        emit(exchange, 'currency:error', (exchangeName) => ({
+          exchange: exchangeName,
+          operation: 'getConvertRate',
+          error: {
+            code: 'E_CURRENCY_NOT_FOUND',
+            info: `Rate not found for ${from}-${to}`,
+            type: 'rate_not_found',
+          },
+          from,
+          to,
+          latency: performance.now() - start,
+        }))
+      }
+
+      return rate
+    } catch (error) {
+      emit(exchange, 'currency:error', (exchangeName) => ({
+        exchange: exchangeName,
+        operation: 'getConvertRate',
+        error: errorInfo(error),
+        from,
+        to,
+        latency: performance.now() - start,
+      }))
+      throw error
+    }
+  }
+
+  if (exchange instanceof DatabaseExchange) {
+    const syncRates = exchange.syncRates.bind(exchange)
+    exchange.syncRates = async (params) => {
+      const start = performance.now()
+
+      try {
+        const result: RatesSyncResult = await syncRates(params)
+        const latency = performance.now() - start
+
+        if (!result.dryRun) {
+          emit(exchange, 'currency:rates_synced', (exchangeName) => ({
+            exchange: exchangeName,
+            base: result.base,
+            changes: result.changes,
+            failures: result.failures,
+            latency,
+          }))
+        }
+
+        return result
+      } catch (error) {
+        emit(exchange, 'currency:error', (exchangeName) => ({
+          exchange: exchangeName,
+          operation: 'syncRates',
+          error: errorInfo(error),
+          latency: performance.now() - start,
+        }))
+        throw error
+      }
+    }
+
+    exchange.onStale((event) => {
+      emit(exchange, 'currency:rates_stale', (exchangeName) => ({
+        ...event,
+        exchange: exchangeName,
+      }))
+    })
+  }
+
+  return exchange
+}
@@ -0,0 +1,158 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import { resultError } from './helpers.js'
+
+/**
+ * Optional hooks an exchange implements to release its resources when the
+ * application terminates
+ */
+export interface ExchangeLifecycle {
+  cleanup?(): unknown
+  close?(): unknown
+}
+
+/**
+ * Abort controllers of the exchanges wrapped by "abortOnClose"
+ */
+const controllers = new WeakMap<BaseCurrencyExchange, AbortController>()
+
+/**
+ * Settle with the promise, or reject as soon as the signal is aborted
+ */
+function untilAborted<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason)
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Give an exchange without lifecycle hooks of its own, such as the remote
+ * exchanges of "@mixxtor/currencyx-js", a "close" hook that stops waiting
+ * for its in-flight HTTP requests. Pending and later calls settle right
+ * away with a failed result, so callers are not kept waiting until the
+ * request times out.
+ *
+ * The requests themselves are not cancelled: the exchanges expose no way
+ * to pass them a signal, so a request and its timeout timer keep running
+ * in the background until they settle, and their result is discarded.
+ * Exchanges able to abort their requests implement "close" themselves,
+ * and are left untouched.
+ *
+ * Wrapping a closed exchange again, as when the application is booted
+ * again, opens it for new calls.
+ */
+export function abortOnClose(
+  exchange: BaseCurrencyExchange & ExchangeLifecycle
+): BaseCurrencyExchange & ExchangeLifecycle {
+  const wrapped = controllers.get(exchange)
+  if (wrapped) {
+    if (wrapped.signal.aborted) {
+      controllers.set(exchange, new AbortController())
+    }
+
+    return exchange
+  }
+
+  if (exchange.cleanup || exchange.close) {
+    return exchange
+  }
+
+  controllers.set(exchange, new AbortController())
+
+  /**
+   * Read on every call, since the controller is replaced when the
+   * exchange is wrapped again after being closed
+   */
+  const signal = () => controllers.get(exchange)!.signal
+
+  const error = (aborted: AbortSignal) =>
+    resultError(
+      'E_EXCHANGE_UNAVAILABLE',
+      aborted.reason instanceof Error ? aborted.reason.message : 'Exchange closed',
+      'aborted'
+    )
+
+  const convert = exchange.convert.bind(exchange)
+  exchange.convert = async (params) => {
+    const current = signal()
+    try {
+      return await untilAborted(current, convert(params))
+    } catch (reason) {
+      if (reason !== current.reason) {
+        throw reason
+      }
+
+      const { amount, from, to } = params
+      return exchange['createConversionResult'](
+        amount,
+        from,
+        to,
+        undefined,
+        undefined,
+        error(current)
+      )
+    }
+  }
+
+  const latestRates = exchange.latestRates.bind(exchange)
+  exchange.latestRates = async (params) => {
+    const current = signal()
+    try {
+      return await untilAborted(current, latestRates(params))
+    } catch (reason) {
+      if (reason !== current.reason) {
+        throw reason
+      }
+
+      return exchange['createExchangeRatesResult'](
+        params?.base ?? exchange.base,
+        {},
+        error(current)
+      )
+    }
+  }
+
+  const getConvertRate = exchange.getConvertRate.bind(exchange)
+  exchange.getConvertRate = async (from, to) => {
+    const current = signal()
+    try {
+      return await untilAborted(current, getConvertRate(from, to))
+    } catch (reason) {
+      if (reason !== current.reason) {
+        throw reason
+      }
+
+      return undefined
+    }
+  }
+
+  exchange.close = () => controllers.get(exchange)!.abort(new Error('Exchange closed'))
+  return exchange
+}
+
+/**
+ * Release the resources of an exchange, using its "cleanup" hook or else
+ * its "close" hook
+ */
+export async function closeExchange(exchange: BaseCurrencyExchange & ExchangeLifecycle) {
+  if (typeof exchange.cleanup === 'function') {
+    await exchange.cleanup()
+  } else if (typeof exchange.close === 'function') {
+    await exchange.close()
+  }
+}
@@ -0,0 +1,165 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import app from '@adonisjs/core/services/app'
+import type { NormalizeConstructor } from '@adonisjs/core/types/helpers'
+import type { BaseModel } from '@adonisjs/lucid/orm'
+import type { LucidModel, LucidRow, ModelObject } from '@adonisjs/lucid/types/model'
+import type { CurrencyCode } from '@mixxtor/currencyx-js'
+import type {
+  DatabaseConversionResult,
+  MoneyColumnOptions,
+  PricedConversionResult,
+} from './types.js'
+import { Decimal } from './decimal.js'
+import { toException } from './helpers.js'
+
+/**
+ * Immutable amount of money in a given currency
+ *
+ * @example
+ * const price = new Money(100, 'USD')
+ * const converted = await price.toCurrency('EUR', { exchange: 'database' })
+ */
+export class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: CurrencyCode
+  ) {}
+
+  /**
+   * Convert to another currency using the `currency.manager` singleton.
+   * Uses the default exchange unless another one is given, applies the
+   * pricing rules and rounds the amount to the minor unit of the target
+   * currency. Throws the exception matching the error of a failed
+   * conversion, such as E_CURRENCY_NOT_FOUND
+   */
+  async toCurrency(code: CurrencyCode, options: { exchange?: string } = {}): Promise<Money> {
+    if (code === this.currency) {
+      return this
+    }
+
+    if (this.amount === 0) {
+      return new Money(0, code)
+    }
+
+    const manager = await app.container.make('currency.manager')
+    const result: DatabaseConversionResult & PricedConversionResult = await manager.convert({
+      amount: this.amount,
+      from: this.currency,
+      to: code,
+      exchange: options.exchange,
+    })
+    if (!result.success || result.result === undefined) {
+      throw toException(result.error)
+    }
+
+    /**
+     * Results of the precision mode are already rounded to the minor unit
+     */
+    if (result.decimal) {
+      return new Money(Number(result.decimal.result), code)
+    }
+
+    const minorUnits = manager.getByCode(code)?.decimal ?? 2
+    return new Money(Decimal.from(result.result).round(minorUnits).toNumber(), code)
+  }
+
+  toJSON() {
+    return { amount: this.amount, currency: this.currency }
+  }
+}
+
+/**
+ * Turn the raw amounts of the money columns into money objects, once the
+ * currency columns are available on the row
+ */
+function hydrateMoney(row: LucidRow) {
+  const Model = row.constructor as LucidModel
+
+  for (const [attribute, definition] of Model.$columnsDefinitions) {
+    if (definition.meta?.type !== 'money') {
+      continue
+    }
+
+    const value = row.$attributes[attribute]
+    const currency = row.$attributes[definition.meta.currencyColumn]
+    if (value === null || value === undefined || value instanceof Money || !currency) {
+      continue
+    }
+
+    row.$attributes[attribute] = new Money(Number(value), currency)
+  }
+}
+
+/**
+ * Define a column holding an amount, whose currency is stored in another
+ * column of the same model. The model must use the `withMoney` mixin, so
+ * that fetched amounts are consumed as money objects.
+ *
+ * @example
+ * class Product extends compose(BaseModel, withMoney()) {
+ *   @column()
+ *   declare currency: string
+ *
+ *   @moneyColumn({ currencyColumn: 'currency' })
+ *   declare price: Money | null
+ * }
+ */
+export const moneyColumn = (options: Partial<MoneyColumnOptions> = {}) => {
+  return function decorateAsMoneyColumn(target: any, property: string) {
+    const Model = target.constructor as LucidModel
+    Model.boot()
+
+    const { currencyColumn = 'currency', ...columnOptions } = options
+    const normalizedOptions = Object.assign(
+      {
+        prepare: (value: unknown) => (value instanceof Money ? value.amount : value),
+        consume: (value: unknown) =>
+          value === null || value === undefined ? value : Number(value),
+        serialize: (value: unknown) => (value instanceof Money ? value.toJSON() : value),
+        meta: {},
+      },
+      columnOptions
+    )
+
+    normalizedOptions.meta.type = 'money'
+    normalizedOptions.meta.currencyColumn = currencyColumn
+    Model.$addColumn(property, normalizedOptions)
+
+    /**
+     * Keep the currency column in sync with the assigned money object
+     */
+    Model.before('save', (row: LucidRow) => {
+      const value = row.$attributes[property]
+      if (value instanceof Money && row.$attributes[currencyColumn] !== value.currency) {
+        row.$attributes[currencyColumn] = value.currency
+      }
+    })
+  }
+}
+
+/**
+ * Mixin consuming the amounts of the money columns as money objects
+ *
+ * @example
+ * class Product extends compose(BaseModel, withMoney()) {}
+ */
+export function withMoney() {
+  return <Model extends NormalizeConstructor<typeof BaseModel>>(superclass: Model) => {
+    class ModelWithMoney extends superclass {
+      $consumeAdapterResult(adapterResult: ModelObject, sideloadAttributes?: ModelObject) {
+        super.$consumeAdapterResult(adapterResult, sideloadAttributes)
+        hydrateMoney(this)
+      }
+    }
+
+    return ModelWithMoney
+  }
+}
@@ -0,0 +1,116 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import type { PluginFn } from 'edge.js/types'
+import { HttpContext } from '@adonisjs/core/http'
+import type { Request } from '@adonisjs/core/http'
+import type { CurrencyCode } from '@mixxtor/currencyx-js'
+import type { CurrencyManager } from '../currency_manager.js'
+import { preferredLocale } from '../helpers.js'
+
+/**
+ * Helpers shared with the templates as the "currency" global
+ */
+export class CurrencyViewHelpers {
+  constructor(protected manager: CurrencyManager) {}
+
+  /**
+   * Locale of the current HTTP request. Requires the async local storage
+   * to be enabled, unless a request is given
+   */
+  locale(request?: Request): string | undefined {
+    const header = (request ?? HttpContext.get()?.request)?.header('accept-language')
+    return preferredLocale(header)
+  }
+
+  /**
+   * Round an amount to the minor unit of the currency and format it
+   *
+   * @example
+   * {{ currency.format(product.price, 'EUR') }}
+   */
+  format(amount: number, code: CurrencyCode, locale?: string): string {
+    return this.manager.formatCurrency({
+      amount: this.manager.roundMoney(Number(amount), code),
+      code,
+      locale: locale ?? this.locale(),
+    })
+  }
+
+  /**
+   * Convert an amount and round it to the minor unit of the target
+   * currency. Rates are read through the manager, so the pricing rules
+   * apply and the database exchange answers from its cache when one is
+   * configured
+   *
+   * @example
+   * {{ currency.format(await currency.convert(product.price, 'USD', 'EUR'), 'EUR') }}
+   */
+  async convert(
+    amount: number,
+    from: CurrencyCode,
+    to: CurrencyCode,
+    options: { exchange?: string } = {}
+  ): Promise<number | undefined> {
+    const rate = await this.manager.getConvertRate(from, to, options)
+    if (rate === undefined) {
+      return undefined
+    }
+
+    return this.manager.roundMoney(Number(amount) * rate, to)
+  }
+
+  /**
+   * Format an amount using the locale of the given request. Used by the
+   * "@money" tag
+   */
+  formatForRequest(request: Request | undefined, amount: number, code: CurrencyCode) {
+    return this.format(amount, code, this.locale(request))
+  }
+}
+
+/**
+ * Edge plugin registering the "currency" global and the "@money" tag
+ *
+ * @example
+ * @money(product.price, 'EUR')
+ */
+export function edgePluginCurrency(manager: CurrencyManager): PluginFn<undefined> {
+  return (edge) => {
+    edge.global('currency', new CurrencyViewHelpers(manager))
+    edge.registerTag({
+      tagName: 'money',
+      block: false,
+      seekable: true,
+      compile(parser, buffer, token) {
+        const parsed = parser.utils.transformAst(
+          parser.utils.generateAST(token.properties.jsArg, token.loc, token.filename),
+          token.filename,
+          parser
+        )
+
+        /**
+         * Spread "@money(amount, code)" as arguments, instead of a
+         * sequence expression
+         */
+        const args =
+          parsed.type === 'SequenceExpression'
+            ? parsed.expressions.map((expression: any) => parser.utils.stringify(expression))
+            : [parser.utils.stringify(parsed)]
+
+        buffer.outputExpression(
+          `state.currency.formatForRequest(state.request, ${args.join(', ')})`,
+          token.filename,
+          token.loc.start.line,
+          true
+        )
+      },
+    })
+  }
+}
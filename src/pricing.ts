@@ -0,0 +1,117 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import { HttpContext } from '@adonisjs/core/http'
+import type { BaseCurrencyExchange, CurrencyCode } from '@mixxtor/currencyx-js'
+import { Decimal } from './decimal.js'
+import { DatabaseExchange } from './exchanges/database.js'
+import type {
+  DatabaseConversionResult,
+  Markup,
+  PricedConversionResult,
+  PricingConfig,
+  PricingRequest,
+} from './types.js'
+
+/**
+ * Returns the markup of a conversion. The callback is asked first, then
+ * the currency pair and finally the target currency rules are used
+ */
+export async function resolveMarkup(
+  config: PricingConfig,
+  request: Omit<PricingRequest, 'ctx'>
+): Promise<Markup | undefined> {
+  const markup = await config.markup?.({ ...request, ctx: HttpContext.get() ?? undefined })
+  return markup ?? config.pairs?.[`${request.from}/${request.to}`] ?? config.targets?.[request.to]
+}
+
+/**
+ * Apply a markup to a rate. Rates read as strings, as decimal columns of
+ * some database drivers are, are turned into numbers first
+ *
+ * @example
+ * applyMarkup(0.9, { percent: -1 }) // 0.891
+ * applyMarkup(0.9, { fixed: 0.01 }) // 0.91
+ */
+export function applyMarkup(rate: number | string, markup: Markup): number {
+  const value = Number(rate)
+  return 'percent' in markup ? value * (1 + markup.percent / 100) : value + Number(markup.fixed)
+}
+
+/**
+ * Compute the rate of a conversion with its markup, if any
+ */
+export async function priceRate(
+  config: PricingConfig,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rate: number
+): Promise<number> {
+  const markup = from === to ? undefined : await resolveMarkup(config, { from, to, rate })
+  return markup ? applyMarkup(rate, markup) : rate
+}
+
+/**
+ * Apply a markup to a decimal rate, without float drift
+ */
+function applyDecimalMarkup(rate: Decimal, markup: Markup): Decimal {
+  if ('fixed' in markup) {
+    return rate.plus(markup.fixed)
+  }
+
+  const factor = Decimal.from(markup.percent).plus(100)
+  return rate.times(factor.div(100, factor.scale + 2))
+}
+
+/**
+ * Compute the result of a successful conversion with its markup, if any.
+ * The rate of the exchange is kept as "info.rate", the adjusted rate and
+ * result are reported under "pricing". Results of the precision mode are
+ * computed with decimals and rounded to the minor unit of the target
+ * currency, using the rounding mode of the exchange
+ */
+export async function priceConversion(
+  config: PricingConfig,
+  result: DatabaseConversionResult,
+  exchange?: BaseCurrencyExchange
+): Promise<DatabaseConversionResult & PricedConversionResult> {
+  const { amount, from, to } = result.query
+  const rate = result.info?.rate
+  if (!result.success || rate === undefined || from === to) {
+    return result
+  }
+
+  const markup = await resolveMarkup(config, { from, to, amount, rate })
+  if (!markup) {
+    return result
+  }
+
+  if (!result.decimal) {
+    const adjustedRate = applyMarkup(rate, markup)
+    const adjustedResult = amount * adjustedRate
+
+    return {
+      ...result,
+      result: adjustedResult,
+      pricing: { markup, rate: adjustedRate, result: adjustedResult },
+    }
+  }
+
+  const { rounding } = (exchange instanceof DatabaseExchange && exchange.precision) || {}
+  const minorUnits = exchange?.getByCode(to)?.decimal ?? 2
+  const adjustedRate = applyDecimalMarkup(Decimal.from(result.decimal.rate), markup)
+  const adjustedResult = Decimal.from(amount).times(adjustedRate).round(minorUnits, rounding)
+
+  return {
+    ...result,
+    result: adjustedResult.toNumber(),
+    decimal: { rate: adjustedRate.trim().toString(), result: adjustedResult.toString() },
+    pricing: { markup, rate: adjustedRate.toNumber(), result: adjustedResult.toNumber() },
+  }
+}
@@ -0,0 +1,129 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import string from '@adonisjs/core/helpers/string'
+import type { Logger } from '@adonisjs/core/logger'
+import type CurrencyService from '@mixxtor/currencyx-js'
+import { DatabaseExchange } from './exchanges/database.js'
+import { resolveExchange, syncFromExchange } from './helpers.js'
+import type { RatesSyncResult, RefreshConfig } from './types.js'
+
+/**
+ * The subset of the "@adonisjs/lock" service used by the refresher
+ */
+export interface RefreshLocks {
+  createLock(name: string, ttl?: number): { acquireImmediately(): Promise<boolean> }
+}
+
+/**
+ * Syncs rates from a remote exchange into a database exchange at a fixed
+ * interval. Started by the provider when "refresh" is configured.
+ */
+export class RatesRefresher {
+  #timer?: NodeJS.Timeout
+  #running?: Promise<RatesSyncResult | undefined>
+  #interval: number
+
+  constructor(
+    protected manager: CurrencyService,
+    protected config: RefreshConfig,
+    protected locks?: RefreshLocks,
+    protected logger?: Logger
+  ) {
+    this.#interval = string.milliseconds.parse(config.every)
+    if (!Number.isFinite(this.#interval) || this.#interval <= 0) {
+      throw new Error(`Invalid refresh interval: ${config.every}`)
+    }
+
+    if (!(resolveExchange(manager, config.into) instanceof DatabaseExchange)) {
+      throw new Error(`Cannot refresh "${config.into}": not a database exchange`)
+    }
+
+    resolveExchange(manager, config.from)
+  }
+
+  /**
+   * Whether the refresh is scheduled
+   */
+  get isStarted(): boolean {
+    return !!this.#timer
+  }
+
+  /**
+   * Schedule the refresh. The timer does not keep the process alive
+   */
+  start(): this {
+    if (this.#timer) {
+      return this
+    }
+
+    this.#timer = setInterval(() => this.#refreshInBackground(), this.#interval)
+    this.#timer.unref()
+
+    if (this.config.immediate) {
+      this.#refreshInBackground()
+    }
+
+    return this
+  }
+
+  /**
+   * Cancel the schedule and wait for a running refresh to complete
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.#timer)
+    this.#timer = undefined
+
+    await this.#running?.catch(() => {})
+  }
+
+  /**
+   * Sync the rates once. Resolves with undefined when another instance
+   * holds the lock for the current interval. Overlapping calls share the
+   * same refresh
+   */
+  refresh(): Promise<RatesSyncResult | undefined> {
+    if (!this.#running) {
+      this.#running = this.#refresh().finally(() => {
+        this.#running = undefined
+      })
+    }
+
+    return this.#running
+  }
+
+  #refreshInBackground() {
+    this.refresh()
+      .then((result) => {
+        for (const failure of result?.failures ?? []) {
+          this.logger?.warn(failure, 'Unable to refresh currency rate')
+        }
+      })
+      .catch((error) => {
+        this.logger?.error({ err: error }, 'Unable to refresh currency rates')
+      })
+  }
+
+  async #refresh(): Promise<RatesSyncResult | undefined> {
+    const { from, into, codes } = this.config
+
+    /**
+     * The lock is never released, but expires shortly before the next
+     * interval, so only one instance refreshes the rates per interval
+     */
+    if (this.locks) {
+      const lock = this.locks.createLock(`currency:refresh:${into}`, this.#interval * 0.9)
+      if (!(await lock.acquireImmediately())) {
+        return undefined
+      }
+    }
+
+    return syncFromExchange(this.manager, { from, into, codes })
+  }
+}
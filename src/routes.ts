@@ -0,0 +1,204 @@
+/*
+ * @mixxtor/currencyx-adonisjs
+ *
+ * (c) Mixxtor
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+ */
+
+import vine from '@vinejs/vine'
+import string from '@adonisjs/core/helpers/string'
+import type { HttpContext, Router } from '@adonisjs/core/http'
+import type { CurrencyCode } from '@mixxtor/currencyx-js'
+import type { CurrencyManager } from './currency_manager.js'
+import type { CurrencyResultError, CurrencyRoutesOptions, Markup } from './types.js'
+import { toException } from './helpers.js'
+
+/**
+ * Values the validators check the query string against
+ */
+type ValidationMeta = { codes: string[]; exchanges: string[] }
+
+const currencyCode = () =>
+  vine
+    .string()
+    .trim()
+    .toUpperCase()
+    .in((field) => (field.meta as ValidationMeta).codes)
+
+const exchangeName = () =>
+  vine
+    .string()
+    .trim()
+    .in((field) => (field.meta as ValidationMeta).exchanges)
+    .optional()
+
+export const ratesValidator = vine.withMetaData<ValidationMeta>().compile(
+  vine.object({
+    base: currencyCode().optional(),
+    codes: vine.array(currencyCode()).distinct().optional(),
+    exchange: exchangeName(),
+  })
+)
+
+export const convertValidator = vine.withMetaData<ValidationMeta>().compile(
+  vine.object({
+    amount: vine.number().positive(),
+    from: currencyCode(),
+    to: currencyCode(),
+    exchange: exchangeName(),
+  })
+)
+
+export const currenciesValidator = vine.withMetaData<ValidationMeta>().compile(
+  vine.object({
+    exchange: exchangeName(),
+  })
+)
+
+/**
+ * Resolve the currency manager and the metadata used by the validators
+ */
+async function resolveManager(ctx: HttpContext) {
+  const manager: CurrencyManager = await ctx.containerResolver.make('currency.manager')
+  const meta: ValidationMeta = {
+    codes: manager.getList().map((currency) => currency.code),
+    exchanges: manager.getAvailableExchanges().map(String),
+  }
+
+  return { manager, meta }
+}
+
+/**
+ * Read the query string, accepting comma separated lists of codes
+ */
+function readQuery(ctx: HttpContext) {
+  const query = { ...ctx.request.qs() }
+  if (typeof query.codes === 'string') {
+    query.codes = query.codes.split(',').filter(Boolean)
+  }
+
+  return query
+}
+
+/**
+ * Send a result with cache headers derived from the rate timestamp. Answers
+ * with "304 Not Modified" when the client already has the same rates, and
+ * failed results with the status of the matching exception.
+ * Results depending on the caller, such as conversions priced by a markup
+ * callback, are only cached privately, and the applied markup is part of
+ * the ETag
+ */
+function sendResult(
+  ctx: HttpContext,
+  exchange: string,
+  timestamp: number,
+  result: { success: boolean; error?: CurrencyResultError; pricing?: { markup: Markup } },
+  maxAge: number,
+  personalized = false
+) {
+  const { request, response } = ctx
+
+  if (!result.success) {
+    return response.status(toException(result.error).status).send(result)
+  }
+
+  const markup = result.pricing ? JSON.stringify(result.pricing.markup) : ''
+  const scope = personalized || markup ? 'private' : 'public'
+
+  response.header('Cache-Control', `${scope}, max-age=${maxAge}`)
+  response.header('Last-Modified', new Date(timestamp).toUTCString())
+  response.setEtag(`${exchange}:${timestamp}:${request.url(true)}:${markup}`, true)
+
+  if (response.fresh()) {
+    return response.notModified()
+  }
+
+  return response.ok(result)
+}
+
+/**
+ * Register an opt-in group of routes exposing the configured exchanges
+ * over HTTP. The group is returned, so middleware can be applied to it.
+ *
+ * @example
+ * // start/routes.ts
+ * import router from '@adonisjs/core/services/router'
+ * import { currencyRoutes } from '@mixxtor/currencyx-adonisjs/routes'
+ *
+ * currencyRoutes(router, { prefix: '/api/currency' })
+ */
+export function currencyRoutes(router: Router, options: CurrencyRoutesOptions = {}) {
+  const { prefix = '/api/currency', as = 'currency', maxAge = '1m' } = options
+  const maxAgeInSeconds = Math.round(string.seconds.parse(maxAge))
+
+  return router
+    .group(() => {
+      router
+        .get('/rates', async (ctx) => {
+          const { manager, meta } = await resolveManager(ctx)
+          const query = await ratesValidator.validate(readQuery(ctx), { meta })
+          const name = query.exchange ?? String(manager.getCurrentExchange())
+
+          const result = await manager.getExchangeRates({
+            base: query.base as CurrencyCode | undefined,
+            codes: query.codes as CurrencyCode[] | undefined,
+            exchange: name,
+          })
+
+          return sendResult(ctx, name, result.timestamp, result, maxAgeInSeconds)
+        })
+        .as('rates')
+
+      router
+        .get('/convert', async (ctx) => {
+          const { manager, meta } = await resolveManager(ctx)
+          const query = await convertValidator.validate(readQuery(ctx), { meta })
+          const name = query.exchange ?? String(manager.getCurrentExchange())
+
+          const result = await manager.convert({
+            amount: query.amount,
+            from: query.from as CurrencyCode,
+            to: query.to as CurrencyCode,
+            exchange: name,
+          })
+
+          return sendResult(
+            ctx,
+            name,
+            result.info.timestamp,
+            result,
+            maxAgeInSeconds,
+            !!manager.pricing?.markup
+          )
+        })
+        .as('convert')
+
+      router
+        .get('/currencies', async (ctx) => {
+          const { manager, meta } = await resolveManager(ctx)
+          const query = await currenciesValidator.validate(readQuery(ctx), { meta })
+          const name = query.exchange ?? String(manager.getCurrentExchange())
+
+          const supported = new Set<string>(await manager.getSupportedCurrencies(name))
+          return {
+            exchange: name,
+            currencies: manager.getList().filter((currency) => supported.has(currency.code)),
+          }
+        })
+        .as('currencies')
+
+      router
+        .get('/exchanges', async (ctx) => {
+          const { manager } = await resolveManager(ctx)
+          return {
+            default: String(manager.getCurrentExchange()),
+            exchanges: manager.getAvailableExchanges().map(String),
+          }
+        })
+        .as('exchanges')
+    })
+    .prefix(prefix)
+    .as(as)
+}
@@ -1,8 +1,17 @@
 import { CacheOptions, CacheService } from '@adonisjs/cache/types'
 import { ApplicationService, ConfigProvider } from '@adonisjs/core/types'
-import { LucidModel } from '@adonisjs/lucid/types/model'
+import type { HttpContext } from '@adonisjs/core/http'
+import type { AppEnvironments } from '@adonisjs/core/types/app'
+import { ColumnOptions, LucidModel, ModelQueryBuilderContract } from '@adonisjs/lucid/types/model'
 import BaseCurrencyService, { BaseCurrencyExchange, createCurrency } from '@mixxtor/currencyx-js'
-import type { CurrencyExchanges } from '@mixxtor/currencyx-js'
+import type {
+  ConversionResult,
+  ConvertParams,
+  CurrencyCode,
+  CurrencyExchanges,
+  ExchangeRatesParams,
+  ExchangeRatesResult,
+} from '@mixxtor/currencyx-js'
 
 export type { CurrencyExchanges, CurrencyCode } from '@mixxtor/currencyx-js'
 
@@ -52,13 +61,206 @@ export interface DatabaseConfig<
      * @default 'updated_at'
      */
     updated_at?: string
+
+    /**
+     * Boolean status column. When defined, only the currencies having a
+     * truthy status can be converted
+     * @default undefined (every currency is active)
+     */
+    status?: string
   }
 
+  /**
+   * Constrain the query reading the available currencies, on top of the
+   * "status" column. Syncing rates and auditing the table are not scoped
+   * @example (query) => query.whereNotIn('code', ['BTC'])
+   */
+  scope?: (query: ModelQueryBuilderContract<Model>) => void
+
+  /**
+   * Let tenants override the global rates. Lookups read the rates of the
+   * resolved tenant, falling back to the global rate of every code the
+   * tenant does not override. Syncing rates and auditing the table only
+   * cover the global rates
+   * @default undefined (every lookup reads the global rates)
+   */
+  tenancy?: TenancyConfig
+
   /**
    * Cache configuration for this database provider
    * @default false
    */
   cache?: Cache | undefined | false
+
+  /**
+   * In-process snapshot of the currency table, serving every lookup
+   * without a query. It is read through the cache when enabled, so that
+   * instances keep sharing the rates
+   * @default { ttl: '1m' } when the cache is enabled, false otherwise
+   */
+  snapshot?: SnapshotConfig | false
+
+  /**
+   * History table configuration. When enabled, synced rates are appended
+   * to the history table and conversions can be made at a past date
+   * @default false
+   */
+  history?: HistoryConfig | false
+
+  /**
+   * Convert with arbitrary-precision decimals instead of JavaScript floats
+   * and round results to the minor unit of the target currency
+   * @default false
+   */
+  precision?: PrecisionConfig | false
+
+  /**
+   * Maximum age of the stored rates, in milliseconds or as a human-readable
+   * string (e.g., '1d'). Results relying on older rows are flagged as stale
+   * @default undefined (rates never go stale)
+   */
+  maxAge?: number | string
+
+  /**
+   * What to do with rates older than `maxAge`. Use 'fail' along with
+   * `exchanges.fallback()` to fall back to another configured exchange
+   * @default 'flag'
+   */
+  onStale?: 'flag' | 'fail'
+
+  /**
+   * Integrity rules applied to the rates read from and synced into the
+   * currency table, in addition to the base currency having a rate of 1
+   * and every rate being a positive finite number
+   */
+  validation?: RateValidationConfig
+}
+
+/**
+ * Multi-tenancy configuration for the database provider. Tenant rates are
+ * stored against the same base currency as the global rates
+ */
+export interface TenancyConfig {
+  /**
+   * Returns the tenant of the current lookup, or undefined to read the
+   * global rates only
+   * @example () => HttpContext.get()?.auth.user?.tenantId
+   */
+  resolve: () => string | number | null | undefined
+
+  /**
+   * Column holding the tenant of a row. Global rates have a null tenant
+   */
+  column?: string
+
+  /**
+   * Returns the name of the Lucid connection holding the rates of a
+   * tenant. Global rates are read from the connection of the model
+   */
+  connection?: (tenant: string) => string | undefined
+}
+
+/**
+ * In-process snapshot configuration for the database provider
+ */
+export interface SnapshotConfig {
+  /**
+   * How long the snapshot is used before being reloaded, in milliseconds
+   * or as a human-readable string. The snapshot is also reloaded once the
+   * cache is cleared
+   * @default '1m'
+   */
+  ttl?: number | string
+}
+
+/**
+ * Rate integrity rules of the database provider
+ */
+export interface RateValidationConfig {
+  /**
+   * Maximum change of a synced rate versus the stored rate, in percent.
+   * Larger changes are rejected as suspicious
+   * @default undefined (any change is accepted)
+   * @example 20 // reject rates moving by more than 20%
+   */
+  maxChange?: number
+}
+
+/**
+ * A rate breaking one of the integrity rules
+ */
+export interface RateViolation {
+  code: string
+  rule: 'base_rate' | 'invalid_rate' | 'max_change'
+  rate: number
+  previous?: number
+  message: string
+}
+
+/**
+ * Outcome of auditing the currency table of the database exchange
+ */
+export interface RatesValidationResult {
+  success: boolean
+  base: CurrencyCode
+  rows: number
+  violations: RateViolation[]
+}
+
+/**
+ * Strategy used when rounding decimals
+ */
+export type RoundingMode = 'half-even' | 'half-up' | 'floor' | 'ceil'
+
+/**
+ * Precise decimal arithmetic configuration for the database provider
+ */
+export interface PrecisionConfig {
+  /**
+   * Rounding strategy applied to the minor unit (ISO 4217) of the
+   * target currency
+   * @default 'half-even'
+   */
+  rounding?: RoundingMode
+
+  /**
+   * Number of decimal places kept for computed exchange rates
+   * @default 20
+   */
+  scale?: number
+}
+
+/**
+ * History table configuration for the database provider
+ */
+export interface HistoryConfig<Model extends LucidModel = LucidModel> {
+  /**
+   * The Lucid model to use for historical rate queries
+   */
+  model: () => Promise<{ default: Model }> | Model
+
+  /**
+   * Column mapping for the history table
+   */
+  columns?: {
+    /**
+     * Currency code column
+     * @default 'code'
+     */
+    code: string
+
+    /**
+     * Exchange rate column (relative to the base currency)
+     * @default 'exchange_rate'
+     */
+    rate: string
+
+    /**
+     * The date from which the rate is effective
+     * @default 'effective_at'
+     */
+    date: string
+  }
 }
 
 /**
@@ -85,6 +287,175 @@ export interface CurrencyConfig<KnownExchanges extends CurrencyExchanges = Curre
    * Provider configurations
    */
   exchanges: Record<keyof KnownExchanges, BaseCurrencyExchange>
+
+  /**
+   * Periodically sync rates from a remote exchange into a database exchange
+   * @default false
+   */
+  refresh?: RefreshConfig | false
+
+  /**
+   * Throw an exception, instead of returning a failed result, when
+   * `convert` or `latestRates` fail. Can be overridden for every call
+   * @default false
+   */
+  throwOnError?: boolean
+
+  /**
+   * Markup applied by the currency manager on top of the exchange rates
+   * @default undefined (rates are used as is)
+   */
+  pricing?: PricingConfig
+}
+
+/**
+ * Markup applied to an exchange rate, either as a percentage of the rate
+ * or as a fixed amount added to it. Use negative values to lower the rate
+ */
+export type Markup = { percent: number } | { fixed: number }
+
+/**
+ * Conversion a markup is computed for
+ */
+export interface PricingRequest {
+  from: CurrencyCode
+  to: CurrencyCode
+  /**
+   * Undefined when computing a rate with `getConvertRate`
+   */
+  amount?: number
+  rate: number
+  /**
+   * The current HTTP context, when the async local storage is enabled
+   */
+  ctx?: HttpContext
+}
+
+/**
+ * Pricing rules of the currency manager. The markup of a conversion is
+ * computed by the `markup` callback first, then looked up by currency
+ * pair and finally by target currency
+ */
+export interface PricingConfig {
+  /**
+   * Markup keyed by currency pair
+   * @example { 'USD/EUR': { percent: -1.5 } }
+   */
+  pairs?: Record<string, Markup>
+
+  /**
+   * Markup keyed by target currency
+   * @example { JPY: { percent: -2 } }
+   */
+  targets?: Record<string, Markup>
+
+  /**
+   * Compute the markup of a conversion, for example from the customer of
+   * the request. Return undefined to use the pair and target rules
+   */
+  markup?: (request: PricingRequest) => Markup | undefined | Promise<Markup | undefined>
+}
+
+/**
+ * Conversion result of the currency manager. When a markup applies, the
+ * result is computed with the adjusted rate, while "info.rate" remains
+ * the rate of the exchange
+ */
+export type PricedConversionResult = ConversionResult & {
+  pricing?: {
+    markup: Markup
+    rate: number
+    result?: number
+  }
+}
+
+/**
+ * Codes set on the "error.code" of failed results, matching the exceptions
+ * exported as "errors"
+ */
+export type CurrencyErrorCode =
+  | 'E_CURRENCY_NOT_FOUND'
+  | 'E_INVALID_AMOUNT'
+  | 'E_INVALID_RATE'
+  | 'E_STALE_RATES'
+  | 'E_EXCHANGE_UNAVAILABLE'
+
+/**
+ * Error of a failed result. The exchanges of this package set "code" to
+ * one of the codes above, while the remote APIs use numeric codes
+ */
+export interface CurrencyResultError {
+  code?: CurrencyErrorCode | number
+  info: string
+  type?: string
+}
+
+/**
+ * Options accepted by the `convert` and `latestRates` methods of the
+ * currency manager
+ */
+export interface ThrowOnErrorOptions {
+  /**
+   * Throw the exception matching the "error.code" of a failed result
+   */
+  throwOnError?: boolean
+}
+
+/**
+ * Options of the currency manager methods, to use another exchange than
+ * the current one without switching the exchange of the manager
+ */
+export interface ExchangeOptions {
+  /**
+   * Name of the configured exchange to use
+   */
+  exchange?: string
+}
+
+/**
+ * Scheduled rate refresh configuration
+ */
+export interface RefreshConfig {
+  /**
+   * Interval between two refreshes, in milliseconds or as a human-readable
+   * string (e.g., '1h')
+   */
+  every: number | string
+
+  /**
+   * Name of the exchange to fetch rates from
+   */
+  from: string
+
+  /**
+   * Name of the database exchange to write rates into
+   */
+  into: string
+
+  /**
+   * Currency codes to refresh. Refreshes every rate when omitted
+   */
+  codes?: string[]
+
+  /**
+   * Refresh once when the application boots, instead of waiting for the
+   * first interval
+   * @default false
+   */
+  immediate?: boolean
+
+  /**
+   * Application environments running the refresh
+   * @default ['web']
+   */
+  environments?: AppEnvironments[]
+
+  /**
+   * Use "@adonisjs/lock", when installed, so only one instance of a cluster
+   * writes the rates for every interval
+   * @default true
+   */
+  lock?: boolean
 }
 
 /**
@@ -117,12 +488,11 @@ export type ExchangeFactory = BaseCurrencyExchange
 /**
  * Main Currency Service Implementation
  */
-export interface CurrencyService
-  extends BaseCurrencyService<
-    CurrencyExchanges extends Record<string, ReturnType<typeof createCurrency>>
-      ? CurrencyExchanges
-      : never
-  > {}
+export interface CurrencyService extends BaseCurrencyService<
+  CurrencyExchanges extends Record<string, ReturnType<typeof createCurrency>>
+    ? CurrencyExchanges
+    : never
+> {}
 
 /**
  * Service config provider is an extension of the config
@@ -132,3 +502,302 @@ export type ServiceConfigProvider<Factory extends ExchangeFactory> = {
   type: 'provider'
   resolver: (name: string, app: ApplicationService) => Promise<Factory>
 }
+
+/**
+ * Conversion parameters accepted by the database exchange. When a date
+ * is given, the closest historical rates at or before it are used
+ */
+export type DatabaseConvertParams = ConvertParams & {
+  date?: Date | string
+}
+
+/**
+ * Conversion result of the database exchange. Exact decimal strings are
+ * included when the precision mode is enabled
+ */
+export interface DatabaseConversionResult extends ConversionResult {
+  decimal?: {
+    rate: string
+    result: string
+  }
+
+  /**
+   * Whether the rates are older than `maxAge`. Only defined when
+   * `maxAge` is configured
+   */
+  stale?: boolean
+
+  /**
+   * Whether the rates were read from the cache. Only defined when
+   * the cache is enabled
+   */
+  cache?: 'hit' | 'miss'
+
+  /**
+   * Stored rates breaking the integrity rules. The conversion fails when
+   * defined
+   */
+  violations?: RateViolation[]
+}
+
+/**
+ * Exchange rates result of the database exchange
+ */
+export interface DatabaseExchangeRatesResult extends ExchangeRatesResult {
+  /**
+   * Update date of the stored row of each currency, as ISO strings. Only
+   * defined when the rows have an update date
+   */
+  updatedAt?: Record<string, string>
+
+  /**
+   * Whether the rates are older than `maxAge`. Only defined when
+   * `maxAge` is configured
+   */
+  stale?: boolean
+
+  /**
+   * Whether the rates were read from the cache. Only defined when
+   * the cache is enabled
+   */
+  cache?: 'hit' | 'miss'
+
+  /**
+   * Stored rates breaking the integrity rules, left out of the rates.
+   * Only defined when some rates were left out
+   */
+  violations?: RateViolation[]
+}
+
+/**
+ * Reported when the database exchange serves or rejects rates older
+ * than `maxAge`
+ */
+export interface StaleRatesEvent {
+  exchange: string
+  codes: string[]
+  updatedAt: Date
+  age: number
+  maxAge: number
+  action: 'flag' | 'fail'
+}
+
+/**
+ * Static exchange configuration. Rates are given inline or loaded from a
+ * JSON or CSV file
+ */
+export interface StaticConfig {
+  /**
+   * Base currency the rates are relative to
+   * @default 'USD'
+   */
+  base?: CurrencyCode
+
+  /**
+   * Exchange rates relative to the base currency
+   * @example { EUR: 0.85, GBP: 0.73 }
+   */
+  rates?: Record<string, number>
+
+  /**
+   * Path to a JSON or CSV file to load the rates from, on first use. JSON
+   * files contain either a map of rates or an object with "rates" and an
+   * optional "updatedAt". CSV files contain "code,rate" rows
+   */
+  file?: string | URL
+
+  /**
+   * When the rates were last updated, reported as the timestamp of results
+   */
+  updatedAt?: Date | string
+}
+
+/**
+ * Fallback exchange configuration
+ */
+export interface FallbackConfig {
+  /**
+   * Base currency used when none is requested
+   * @default 'USD'
+   */
+  base?: CurrencyCode
+}
+
+/**
+ * Conversion result of the fallback exchange, with the name of the
+ * exchange that answered
+ */
+export interface FallbackConversionResult extends ConversionResult {
+  exchange?: string
+}
+
+/**
+ * Exchange rates result of the fallback exchange, with the name of the
+ * exchange that answered
+ */
+export interface FallbackExchangeRatesResult extends ExchangeRatesResult {
+  exchange?: string
+}
+
+/**
+ * Parameters for fetching historical rates
+ */
+export interface HistoricalRatesParams extends ExchangeRatesParams {
+  date: Date | string
+}
+
+/**
+ * Parameters accepted by the database exchange when syncing rates
+ */
+export interface SyncRatesParams {
+  /**
+   * The currency the incoming rates are expressed against. Rates are
+   * rebased to the database base currency before being written
+   */
+  base: CurrencyCode
+
+  /**
+   * Rates keyed by currency code
+   */
+  rates: Record<string, number>
+
+  /**
+   * Compute the changes without writing them
+   * @default false
+   */
+  dryRun?: boolean
+
+  /**
+   * Write rates changing by more than the configured "maxChange"
+   * @default false
+   */
+  force?: boolean
+}
+
+/**
+ * A single rate change computed (or applied) by a sync
+ */
+export interface RateChange {
+  code: string
+  previous?: number
+  rate: number
+  status: 'created' | 'updated' | 'unchanged'
+}
+
+/**
+ * Outcome of syncing rates into the database exchange
+ */
+export interface RatesSyncResult {
+  success: boolean
+  base: CurrencyCode
+  dryRun: boolean
+  changes: RateChange[]
+  failures: { code: string; error: string }[]
+  violations: RateViolation[]
+}
+
+/**
+ * Payload of the "currency:converted" event
+ */
+export interface CurrencyConvertedEvent {
+  exchange: string
+  from: CurrencyCode
+  to: CurrencyCode
+  amount: number
+  result?: number
+  rate?: number
+  latency: number
+  cache?: 'hit' | 'miss'
+}
+
+/**
+ * Payload of the "currency:rates_fetched" event
+ */
+export interface CurrencyRatesFetchedEvent {
+  exchange: string
+  base: CurrencyCode
+  codes: string[]
+  latency: number
+  cache?: 'hit' | 'miss'
+}
+
+/**
+ * Payload of the "currency:rates_synced" event
+ */
+export interface CurrencyRatesSyncedEvent {
+  exchange: string
+  base: CurrencyCode
+  changes: RateChange[]
+  failures: { code: string; error: string }[]
+  latency: number
+}
+
+/**
+ * Payload of the "currency:cache_hit" event
+ */
+export interface CurrencyCacheHitEvent {
+  exchange: string
+  operation: 'convert' | 'convertMany' | 'latestRates'
+  from?: CurrencyCode
+  to?: CurrencyCode
+  base?: CurrencyCode
+}
+
+/**
+ * Payload of the "currency:error" event
+ */
+export interface CurrencyErrorEvent {
+  exchange: string
+  operation: 'convert' | 'convertMany' | 'latestRates' | 'getConvertRate' | 'syncRates'
+  error: CurrencyResultError
+  from?: CurrencyCode
+  to?: CurrencyCode
+  latency: number
+}
+
+/**
+ * Events emitted by the currency exchanges registered by the provider
+ */
+export interface CurrencyEvents {
+  'currency:converted': CurrencyConvertedEvent
+  'currency:rates_fetched': CurrencyRatesFetchedEvent
+  'currency:rates_synced': CurrencyRatesSyncedEvent
+  'currency:rates_stale': StaleRatesEvent
+  'currency:cache_hit': CurrencyCacheHitEvent
+  'currency:error': CurrencyErrorEvent
+}
+
+/**
+ * Options accepted by the `currencyRoutes` helper
+ */
+export interface CurrencyRoutesOptions {
+  /**
+   * URL prefix of the routes
+   * @default '/api/currency'
+   */
+  prefix?: string
+
+  /**
+   * Prefix of the route names, e.g. "currency.convert"
+   * @default 'currency'
+   */
+  as?: string
+
+  /**
+   * How long clients may cache successful responses, in seconds or as
+   * a human readable string
+   * @default '1m'
+   */
+  maxAge?: number | string
+}
+
+/**
+ * Options accepted by the `moneyColumn` decorator
+ */
+export interface MoneyColumnOptions extends ColumnOptions {
+  /**
+   * Model attribute holding the currency code of the amount
+   * @default 'currency'
+   */
+  currencyColumn: string
+}
@@ -0,0 +1,258 @@
+import { test } from '@japa/runner'
+import { AceFactory } from '@adonisjs/core/factories'
+import type { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import CurrencyConvert from '../commands/currency_convert.js'
+import CurrencyRates from '../commands/currency_rates.js'
+import CurrencySync from '../commands/currency_sync.js'
+import CurrencyValidate from '../commands/currency_validate.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { StaticExchange } from '../src/exchanges/static.js'
+import { validateRate } from '../src/helpers.js'
+import type { RatesSyncResult, RatesValidationResult, SyncRatesParams } from '../src/types.js'
+
+/**
+ * Create an Ace kernel resolving the given manager as "currency.manager",
+ * with the output kept in memory for the assertions
+ */
+async function createAce(manager: CurrencyManager<any>) {
+  const ace = await new AceFactory().make(new URL('./tmp/', import.meta.url), {
+    importer: () => {},
+  })
+  ace.app.container.bindValue('currency.manager', manager)
+  ace.ui.switchMode('raw')
+
+  return ace
+}
+
+/**
+ * Database exchange computing the changes against fixed stored rates
+ * instead of writing them, and auditing the same rates
+ */
+class RecordingDatabaseExchange extends DatabaseExchange {
+  synced: SyncRatesParams[] = []
+  stored: Record<string, number> = { USD: 1, EUR: 0.4 }
+
+  async syncRates(params: SyncRatesParams): Promise<RatesSyncResult> {
+    this.synced.push(params)
+    return {
+      success: true,
+      base: this.base,
+      dryRun: !!params.dryRun,
+      changes: Object.entries(params.rates).map(([code, rate]) => ({
+        code,
+        previous: this.stored[code],
+        rate,
+        status:
+          this.stored[code] === undefined
+            ? 'created'
+            : this.stored[code] === rate
+              ? 'unchanged'
+              : 'updated',
+      })),
+      failures: [],
+      violations: [],
+    }
+  }
+
+  async validateRates(): Promise<RatesValidationResult> {
+    const violations = Object.entries(this.stored)
+      .map(([code, rate]) => validateRate(code, rate, { base: this.base }))
+      .filter((violation) => violation !== undefined)
+
+    return {
+      success: !violations.length,
+      base: this.base,
+      rows: Object.keys(this.stored).length,
+      violations,
+    }
+  }
+}
+
+const createDatabase = () =>
+  new RecordingDatabaseExchange({ model: () => ({}) as any, base: 'USD' } as any)
+
+const createManager = () =>
+  new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+    default: 'static',
+    exchanges: {
+      static: new StaticExchange({ rates: { EUR: 0.5, GBP: 0.25 } }),
+      other: new StaticExchange({ rates: { EUR: 0.25 } }),
+    },
+    pricing: { pairs: { 'USD/EUR': { percent: 100 } } },
+  })
+
+test.group('Commands | currency:convert', () => {
+  test('should display the conversion as a table', async ({ assert }) => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyConvert, ['100', 'usd', 'eur'])
+    await command.exec()
+
+    command.assertSucceeded()
+    const [head, row] = ace.ui.logger.getLogs()
+    assert.equal(head.message, 'Amount|Rate|Adjusted rate|Result|Updated|Cache')
+    assert.match(row.message, /^100 USD\|0\.5\|1\|100 EUR\|/)
+  })
+
+  test('should output the conversion as JSON', async ({ assert }) => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyConvert, [
+      '10',
+      'USD',
+      'GBP',
+      '--exchange=static',
+      '--json',
+    ])
+    await command.exec()
+
+    command.assertSucceeded()
+    const output = JSON.parse(ace.ui.logger.getLogs()[0].message)
+    assert.containsSubset(output, { exchange: 'static', success: true, result: 2.5 })
+  })
+
+  test('should reject invalid amounts and exchanges', async () => {
+    const ace = await createAce(createManager())
+
+    const amount = await ace.create(CurrencyConvert, ['ten', 'USD', 'EUR'])
+    await amount.exec()
+    amount.assertFailed()
+    amount.assertLogMatches(/"ten" is not a valid amount/)
+
+    const exchange = await ace.create(CurrencyConvert, ['10', 'USD', 'EUR', '--exchange=yahoo'])
+    await exchange.exec()
+    exchange.assertFailed()
+    exchange.assertLogMatches(/"yahoo" is not a configured exchange/)
+  })
+
+  test('should exit with an error when the conversion fails', async () => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyConvert, ['10', 'USD', 'JPY'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/Unable to convert with "static": Currency not found: JPY/)
+  })
+})
+
+test.group('Commands | currency:rates', () => {
+  test('should display the rates as a table', async () => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyRates, ['--base=eur', '--codes=usd,gbp'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog('Code|Rate|Updated|Cache')
+    command.assertLogMatches(/^USD\|2\|/)
+    command.assertLogMatches(/^GBP\|0\.5\|/)
+  })
+
+  test('should output the rates as JSON', async ({ assert }) => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyRates, ['--exchange=other', '--codes=EUR', '--json'])
+    await command.exec()
+
+    command.assertSucceeded()
+    const output = JSON.parse(ace.ui.logger.getLogs()[0].message)
+    assert.containsSubset(output, { exchange: 'other', base: 'USD', rates: { EUR: 0.25 } })
+  })
+
+  test('should reject unknown exchanges', async () => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyRates, ['--exchange=yahoo'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/"yahoo" is not a configured exchange/)
+  })
+
+  test('should exit with an error when the rates cannot be fetched', async () => {
+    const ace = await createAce(createManager())
+    const command = await ace.create(CurrencyRates, ['--base=JPY'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/Unable to fetch rates from "static"/)
+  })
+})
+
+test.group('Commands | currency:sync', () => {
+  const createSyncManager = (database = createDatabase()) =>
+    new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+      default: 'database',
+      exchanges: { database, static: new StaticExchange({ rates: { EUR: 0.5, GBP: 0.25 } }) },
+    })
+
+  test('should sync the rates of the source exchange', async ({ assert }) => {
+    const database = createDatabase()
+    const ace = await createAce(createSyncManager(database))
+    const command = await ace.create(CurrencySync, ['--codes=EUR'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLogMatches(/Synced 1 rate\(s\) from "static" into "database"/)
+    assert.deepEqual(database.synced, [
+      { base: 'USD', rates: { USD: 1, EUR: 0.5 }, dryRun: undefined, force: undefined },
+    ])
+  })
+
+  test('should display the changes of a dry run', async ({ assert }) => {
+    const database = createDatabase()
+    const ace = await createAce(createSyncManager(database))
+    const command = await ace.create(CurrencySync, ['--dry-run', '--codes=EUR,GBP'])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLog('Code|Current|New|Change|Status')
+    command.assertLog('EUR|0.4|0.5|25.0000%|updated')
+    command.assertLog('GBP|-|0.25|-|created')
+    assert.isTrue(database.synced[0].dryRun)
+  })
+
+  test('should exit with an error when some rates are missing', async () => {
+    const ace = await createAce(createSyncManager())
+    const command = await ace.create(CurrencySync, ['--codes=EUR,JPY'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/JPY: Rate not returned by "static"/)
+  })
+})
+
+test.group('Commands | currency:validate', () => {
+  const createValidateManager = (database = createDatabase()) =>
+    new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+      default: 'static',
+      exchanges: { static: new StaticExchange({ rates: { EUR: 0.5 } }), database },
+    })
+
+  test('should pass when every rate is valid', async () => {
+    const ace = await createAce(createValidateManager())
+    const command = await ace.create(CurrencyValidate, [])
+    await command.exec()
+
+    command.assertSucceeded()
+    command.assertLogMatches(/All 2 rate\(s\) of "database" are valid/)
+  })
+
+  test('should fail and list the invalid rates', async () => {
+    const database = createDatabase()
+    database.stored = { USD: 1, EUR: 0, GBP: 0.25 }
+
+    const ace = await createAce(createValidateManager(database))
+    const command = await ace.create(CurrencyValidate, ['--exchange=database'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLog('EUR|invalid_rate|0|-|Invalid exchange rate: 0')
+    command.assertLogMatches(/Found 1 invalid rate\(s\) in "database"/)
+  })
+
+  test('should reject exchanges other than the database exchange', async () => {
+    const ace = await createAce(createValidateManager())
+    const command = await ace.create(CurrencyValidate, ['--exchange=static'])
+    await command.exec()
+
+    command.assertFailed()
+    command.assertLogMatches(/"static" is not a database exchange/)
+  })
+})
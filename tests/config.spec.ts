@@ -103,9 +103,16 @@ test.group('Configuration Helpers', () => {
     assert.isFunction(exchange.latestRates)
   })
 
+  test('fallback helper should require exchange names', ({ assert }) => {
+    assert.throws(() => {
+      exchanges.fallback([])
+    }, 'Fallback exchange requires at least one exchange name')
+  })
+
   test('exchanges object should contain all helpers', ({ assert }) => {
     assert.isFunction(exchanges.database)
     assert.isFunction(exchanges.google)
     assert.isFunction(exchanges.fixer)
+    assert.isFunction(exchanges.fallback)
   })
 })
@@ -0,0 +1,71 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams } from '@mixxtor/currencyx-js'
+import { CurrencyContext } from '../src/currency_context.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+
+/**
+ * Exchange answering with fixed rates
+ */
+class FixedExchange extends BaseCurrencyExchange {
+  readonly name = 'fixed'
+
+  constructor(private rates: Record<string, number>) {
+    super()
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    const rate = (await this.getConvertRate(from, to))!
+    return this.createConversionResult(amount, from, to, amount * rate, rate)
+  }
+
+  async latestRates() {
+    return this.createExchangeRatesResult(this.base, this.rates)
+  }
+
+  async getConvertRate(from: string, to: string) {
+    return this.rates[to] && this.rates[from] ? this.rates[to] / this.rates[from] : undefined
+  }
+}
+
+const manager = new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+  default: 'fixed',
+  exchanges: {
+    fixed: new FixedExchange({ USD: 1, EUR: 0.912345 }),
+    other: new FixedExchange({ USD: 1, EUR: 0.5 }),
+  },
+})
+
+test.group('CurrencyContext', () => {
+  test('should convert into the display currency', async ({ assert }) => {
+    const context = new CurrencyContext(manager, 'EUR', 'fr-FR')
+
+    assert.equal(await context.convert(100, 'USD'), 91.23)
+    assert.equal(await context.convert(100, 'USD', { exchange: 'other' }), 50)
+    assert.equal(await context.convert(12.345, 'EUR'), 12.35)
+    assert.isUndefined(await context.convert(100, 'GBP'))
+  })
+
+  test('should apply the pricing rules of the manager', async ({ assert }) => {
+    const priced = new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+      default: 'fixed',
+      exchanges: { fixed: new FixedExchange({ USD: 1, EUR: 0.5 }) },
+      pricing: { targets: { EUR: { percent: -10 } } },
+    })
+    const context = new CurrencyContext(priced, 'EUR')
+
+    assert.equal(await context.convert(100, 'USD'), 45)
+    assert.equal(await context.convert(100, 'EUR'), 100)
+  })
+
+  test('should format with the locale of the request', ({ assert }) => {
+    const context = new CurrencyContext(manager, 'EUR', 'de-DE')
+
+    const format = (...args: Parameters<CurrencyContext['format']>) =>
+      context.format(...args).replace(/\s/g, ' ')
+
+    assert.equal(format(1234.567), '1.234,57 €')
+    assert.equal(format(10, 'USD'), '10,00 $')
+    assert.deepEqual(context.toJSON(), { code: 'EUR', locale: 'de-DE' })
+  })
+})
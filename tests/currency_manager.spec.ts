@@ -0,0 +1,312 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams, ExchangeRatesParams } from '@mixxtor/currencyx-js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import * as errors from '../src/errors.js'
+import type { PricingConfig, PricingRequest } from '../src/types.js'
+
+/**
+ * Exchange failing the test when it is used
+ */
+class UnreachableExchange extends BaseCurrencyExchange {
+  readonly name = 'unreachable'
+
+  async convert(): Promise<never> {
+    throw new Error('The configured exchange must not be used')
+  }
+
+  async latestRates(): Promise<never> {
+    throw new Error('The configured exchange must not be used')
+  }
+
+  async getConvertRate(): Promise<never> {
+    throw new Error('The configured exchange must not be used')
+  }
+}
+
+/**
+ * Remote-like exchange answering rates requests only
+ */
+class RatesOnlyExchange extends BaseCurrencyExchange {
+  readonly name = 'rates_only'
+  requests: ExchangeRatesParams[] = []
+
+  async convert(): Promise<never> {
+    throw new Error('Conversions must use the rates')
+  }
+
+  async latestRates(params: ExchangeRatesParams) {
+    this.requests.push(params)
+    return this.createExchangeRatesResult(params.base!, { EUR: 0.5, GBP: 0.25 } as any)
+  }
+
+  async getConvertRate(): Promise<never> {
+    throw new Error('Conversions must use the rates')
+  }
+}
+
+/**
+ * Exchange answering with rates read as strings, as decimal columns of
+ * some database drivers are
+ */
+class StringRateExchange extends BaseCurrencyExchange {
+  readonly name = 'string_rate'
+
+  async convert({ amount, from, to }: ConvertParams) {
+    return this.createConversionResult(amount, from, to, amount * 0.85, '0.85000000' as any)
+  }
+
+  async latestRates() {
+    return this.createExchangeRatesResult(this.base, { EUR: '0.85000000' } as any)
+  }
+
+  async getConvertRate(): Promise<number> {
+    return '0.85000000' as any
+  }
+}
+
+const createManager = () =>
+  new CurrencyManager({
+    default: 'google',
+    exchanges: { google: new UnreachableExchange(), database: new UnreachableExchange() },
+  })
+
+test.group('CurrencyManager | fake', () => {
+  test('should answer from the fake exchange', async ({ assert }) => {
+    const currency = createManager()
+    const fake = currency.fake({ EUR: 0.5, GBP: 0.25 })
+
+    const result = await currency.convert({ amount: 10, from: 'EUR', to: 'GBP' })
+    const rates = await currency.getExchangeRates({ base: 'EUR', codes: ['USD', 'GBP'] })
+
+    assert.isTrue(currency.isFaked)
+    assert.equal(result.result, 5)
+    assert.deepEqual(rates.rates, { USD: 2, GBP: 0.5 })
+    assert.equal(await currency.getConvertRate('USD', 'EUR'), 0.5)
+    assert.strictEqual(currency.use('database'), fake)
+    assert.equal(currency.getCurrentExchange(), 'database')
+  })
+
+  test('should restore the configured exchanges', async ({ assert }) => {
+    const currency = createManager()
+    currency.fake({ EUR: 0.5 })
+    currency.restore()
+
+    assert.isFalse(currency.isFaked)
+    assert.instanceOf(currency.use('google'), UnreachableExchange)
+    await assert.rejects(
+      () => currency.convert({ amount: 10, from: 'USD', to: 'EUR' }),
+      'The configured exchange must not be used'
+    )
+  })
+
+  test('should fail conversions of unknown currencies', async ({ assert }) => {
+    const fake = createManager().fake({ EUR: 0.5 })
+
+    const result = await fake.convert({ amount: 10, from: 'USD', to: 'JPY' })
+
+    assert.isFalse(result.success)
+    assert.equal(result.error?.info, 'Currency not found: JPY')
+  })
+})
+
+test.group('CurrencyManager | throwOnError', () => {
+  test('should throw the exception matching a failed result', async ({ assert }) => {
+    const currency = createManager()
+    currency.fake({ EUR: 0.5 })
+
+    const result = await currency.convert({ amount: 10, from: 'USD', to: 'JPY' })
+    assert.isFalse(result.success)
+
+    try {
+      await currency.convert({ amount: 10, from: 'USD', to: 'JPY', throwOnError: true })
+      assert.fail('Expected the conversion to throw')
+    } catch (error) {
+      assert.instanceOf(error, errors.E_CURRENCY_NOT_FOUND)
+      assert.equal(error.code, 'E_CURRENCY_NOT_FOUND')
+      assert.equal(error.status, 404)
+      assert.equal(error.message, 'Currency not found: JPY')
+    }
+  })
+
+  test('should throw by default when enabled on the manager', async ({ assert }) => {
+    const currency = new CurrencyManager({
+      default: 'google',
+      exchanges: { google: new UnreachableExchange() },
+      throwOnError: true,
+    })
+    const fake = currency.fake({ EUR: 0.5 })
+
+    await assert.rejects(
+      () => currency.latestRates({ base: 'JPY' }),
+      'Base currency not found: JPY'
+    )
+
+    const result = await currency.latestRates({ base: 'JPY', throwOnError: false })
+    assert.isFalse(result.success)
+    fake.assertRatesFetched({ base: 'JPY' })
+  })
+})
+
+test.group('CurrencyManager | convertMany', () => {
+  test('should convert every item with a single rates request', async ({ assert }) => {
+    const exchange = new RatesOnlyExchange()
+    const currency = new CurrencyManager({ default: 'remote', exchanges: { remote: exchange } })
+
+    const results = await currency.convertMany([
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'EUR', to: 'GBP' },
+      { amount: 10, from: 'EUR', to: 'JPY' },
+      { amount: -1, from: 'USD', to: 'EUR' },
+    ])
+
+    assert.lengthOf(exchange.requests, 1)
+    assert.sameMembers(exchange.requests[0].codes!, ['USD', 'EUR', 'GBP', 'JPY'])
+    assert.deepEqual(
+      results.map((result) => result.result),
+      [5, 5, undefined, undefined]
+    )
+    assert.equal(results[2].error?.info, 'Currency not found: JPY')
+    assert.equal(results[3].error?.code, 'E_INVALID_AMOUNT')
+  })
+
+  test('should record every conversion of the fake exchange', async ({ assert }) => {
+    const currency = createManager()
+    const fake = currency.fake({ EUR: 0.5 })
+
+    const results = await currency.convertMany([
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'EUR', to: 'USD' },
+    ])
+
+    assert.deepEqual(
+      results.map((result) => result.result),
+      [5, 20]
+    )
+    fake.assertConvertedCount(2)
+  })
+})
+
+test.group('CurrencyManager | pricing', () => {
+  const createPricedManager = (pricing: PricingConfig) =>
+    new CurrencyManager({
+      default: 'google',
+      exchanges: { google: new UnreachableExchange() },
+      pricing,
+    })
+
+  test('should apply a percentage or a fixed markup', async ({ assert }) => {
+    const currency = createPricedManager({
+      pairs: { 'USD/EUR': { percent: -50 } },
+      targets: { USD: { fixed: 0.5 } },
+    })
+    currency.fake({ EUR: 0.5 })
+
+    const percent = await currency.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.equal(percent.result, 2.5)
+    assert.equal(percent.info?.rate, 0.5)
+    assert.deepEqual(percent.pricing, { markup: { percent: -50 }, rate: 0.25, result: 2.5 })
+
+    const fixed = await currency.convert({ amount: 10, from: 'EUR', to: 'USD' })
+    assert.equal(fixed.result, 25)
+    assert.equal(fixed.info?.rate, 2)
+    assert.equal(fixed.pricing?.rate, 2.5)
+  })
+
+  test('should prefer the callback, then the pair, then the target', async ({ assert }) => {
+    const requests: PricingRequest[] = []
+    const currency = createPricedManager({
+      pairs: { 'USD/EUR': { fixed: 0.25 } },
+      targets: { EUR: { fixed: 0.5 } },
+      markup: (request) => {
+        requests.push(request)
+        return request.amount === 100 ? { percent: 100 } : undefined
+      },
+    })
+    currency.fake({ EUR: 0.5, GBP: 0.25 })
+
+    const results = await currency.convertMany([
+      { amount: 100, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'GBP', to: 'EUR' },
+      { amount: 10, from: 'USD', to: 'GBP' },
+    ])
+
+    assert.deepEqual(
+      results.map((result) => result.result),
+      [100, 7.5, 25, 2.5]
+    )
+    assert.isUndefined(results[3].pricing)
+    assert.containsSubset(requests[0], { from: 'USD', to: 'EUR', amount: 100, rate: 0.5 })
+  })
+
+  test('should return the adjusted rate', async ({ assert }) => {
+    const currency = createPricedManager({ targets: { EUR: { percent: 50 } } })
+    currency.fake({ EUR: 0.5 })
+
+    assert.equal(await currency.getConvertRate('USD', 'EUR'), 0.75)
+    assert.equal(await currency.getConvertRate('EUR', 'USD'), 2)
+    assert.isUndefined(await currency.getConvertRate('USD', 'JPY'))
+  })
+
+  test('should apply markups to rates read as strings', async ({ assert }) => {
+    const currency = new CurrencyManager({
+      default: 'database',
+      exchanges: { database: new StringRateExchange() },
+      pricing: { pairs: { 'USD/EUR': { fixed: 0.01 } } },
+    })
+
+    const result = await currency.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.closeTo(result.result!, 86, 1e-9)
+    assert.closeTo(result.pricing!.rate, 0.86, 1e-9)
+    assert.closeTo((await currency.getConvertRate('USD', 'EUR'))!, 0.86, 1e-9)
+  })
+
+  test('should leave failed conversions untouched', async ({ assert }) => {
+    const currency = createPricedManager({ targets: { JPY: { percent: 50 } } })
+    currency.fake({ EUR: 0.5 })
+
+    const result = await currency.convert({ amount: 10, from: 'USD', to: 'JPY' })
+
+    assert.isFalse(result.success)
+    assert.isUndefined(result.result)
+    assert.isUndefined(result.pricing)
+  })
+})
+
+test.group('FakeExchange | assertions', () => {
+  test('should assert conversions', async ({ assert }) => {
+    const currency = createManager()
+    const fake = currency.fake({ EUR: 0.5 })
+
+    fake.assertNothingConverted()
+    await currency.convert({ amount: 10, from: 'USD', to: 'EUR' })
+
+    fake.assertConverted({ from: 'USD', to: 'EUR' })
+    fake.assertConverted((params) => params.amount === 10)
+    fake.assertNotConverted({ from: 'EUR' })
+    fake.assertConvertedCount(1)
+    assert.throws(() => fake.assertConverted({ to: 'GBP' }), /Expected a conversion/)
+    assert.throws(() => fake.assertNotConverted({ to: 'EUR' }), /Unexpected conversion/)
+    assert.throws(() => fake.assertNothingConverted(), 'Expected no conversions, received 1')
+    assert.throws(() => fake.assertConvertedCount(2), 'Expected 2 conversion(s), received 1')
+  })
+
+  test('should assert rates requests', async ({ assert }) => {
+    const currency = createManager()
+    const fake = currency.fake({ EUR: 0.5 })
+
+    fake.assertNoRatesFetched()
+    await currency.latestRates({ base: 'EUR' })
+
+    fake.assertRatesFetched()
+    fake.assertRatesFetched({ base: 'EUR' })
+    assert.throws(() => fake.assertRatesFetched({ base: 'USD' }), /Expected rates to be fetched/)
+
+    const rates = await currency.latestRates({ codes: ['EUR'] })
+    assert.deepEqual(rates.rates, { EUR: 0.5 })
+    fake.assertRatesFetched({ codes: ['EUR'] })
+    assert.deepEqual(fake.rateRequests.at(-1), { codes: ['EUR'] })
+    assert.throws(() => fake.assertNoRatesFetched(), /Expected no rates to be fetched/)
+  })
+})
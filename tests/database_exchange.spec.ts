@@ -1,16 +1,26 @@
 import { test } from '@japa/runner'
 import { DatabaseExchange } from '../src/exchanges/database.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { exchanges } from '../src/define_config.js'
+import type { DatabaseConversionResult } from '../src/types.js'
 
 /**
  * Simple in-memory currency repository for testing
  * Following AdonisJS recommended repository pattern instead of mocking models
  */
 class InMemoryCurrencyRepository {
-  private currencies: Array<{ code: string; exchange_rate: number }> = [
-    { code: 'USD', exchange_rate: 1.0 },
-    { code: 'EUR', exchange_rate: 0.85 },
-    { code: 'GBP', exchange_rate: 0.73 },
-  ]
+  constructor(
+    private currencies: Array<{
+      code: string
+      exchange_rate: number
+      updated_at?: string
+      status?: boolean
+    }> = [
+      { code: 'USD', exchange_rate: 1.0 },
+      { code: 'EUR', exchange_rate: 0.85 },
+      { code: 'GBP', exchange_rate: 0.73 },
+    ]
+  ) {}
 
   async findByCode(code: string) {
     return this.currencies.find((c) => c.code === code) || null
@@ -24,8 +34,10 @@ class InMemoryCurrencyRepository {
 /**
  * Create a simple mock model that uses the repository
  */
-function createSimpleMockModel() {
-  const repository = new InMemoryCurrencyRepository()
+function createSimpleMockModel(
+  currencies?: Array<{ code: string; exchange_rate: number; updated_at?: string; status?: boolean }>
+) {
+  const repository = new InMemoryCurrencyRepository(currencies)
 
   // Create a chainable query builder
   const createQueryBuilder = () => {
@@ -46,6 +58,7 @@ function createSimpleMockModel() {
         limitValue = count
         return builder
       },
+      pojo: () => builder,
       // Make the query builder thenable so it can be awaited directly
       then: async function (resolve: any, reject: any) {
         try {
@@ -73,6 +86,8 @@ function createSimpleMockModel() {
             } else {
               results = results.filter((c) => c.code === condition.value)
             }
+          } else {
+            results = results.filter((c) => (c as any)[condition.column] === condition.value)
           }
         }
 
@@ -93,6 +108,48 @@ function createSimpleMockModel() {
   }
 }
 
+/**
+ * Create a mock history model with rates effective at different dates.
+ * Dates are stored as strings, the same way the sqlite dialect does
+ */
+function createHistoryMockModel() {
+  const rows = [
+    { code: 'EUR', exchange_rate: 0.8, effective_at: '2024-01-01 00:00:00' },
+    { code: 'GBP', exchange_rate: 0.7, effective_at: '2024-01-01 00:00:00' },
+    { code: 'EUR', exchange_rate: 0.9, effective_at: '2024-02-01 00:00:00' },
+    { code: 'GBP', exchange_rate: 0.75, effective_at: '2024-03-01 00:00:00' },
+  ]
+
+  const createQueryBuilder = () => {
+    let results = [...rows]
+
+    const builder = {
+      client: { dialect: { dateTimeFormat: 'yyyy-MM-dd HH:mm:ss' } },
+      select: (_columns: string[]) => builder,
+      where: (column: string, _operator: string, value: string) => {
+        results = results.filter((row) => (row as any)[column] <= value)
+        return builder
+      },
+      whereIn: (column: string, values: string[]) => {
+        results = results.filter((row) => values.includes((row as any)[column]))
+        return builder
+      },
+      orderBy: (column: string, _direction: string) => {
+        results.sort((a, b) => ((b as any)[column] > (a as any)[column] ? 1 : -1))
+        return builder
+      },
+      pojo: () => builder,
+      then: (resolve: any) => resolve(results),
+    }
+
+    return builder
+  }
+
+  return {
+    query: createQueryBuilder,
+  }
+}
+
 test.group('DatabaseExchange Simple Tests', () => {
   test('should initialize with correct configuration', ({ assert }) => {
     const config = {
@@ -133,6 +190,23 @@ test.group('DatabaseExchange Simple Tests', () => {
     assert.equal(result.info.rate, 1)
   })
 
+  test('should read decimal columns returned as strings', async ({ assert }) => {
+    const model = createSimpleMockModel([
+      { code: 'USD', exchange_rate: '1.00000000' },
+      { code: 'EUR', exchange_rate: '0.85000000' },
+      { code: 'GBP', exchange_rate: '0.75000000' },
+    ] as any)
+    const provider = new DatabaseExchange({ model: () => model as any, base: 'USD' } as any)
+
+    const result = await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.strictEqual(result.info.rate, 0.85)
+    assert.strictEqual(result.result, 85)
+    assert.strictEqual(await provider.getConvertRate('USD', 'EUR'), 0.85)
+
+    const rates = await provider.latestRates({ codes: ['EUR', 'GBP'] })
+    assert.deepEqual(rates.rates, { EUR: 0.85, GBP: 0.75 })
+  })
+
   test('should convert currency using cross rates', async ({ assert }) => {
     const config = {
       model: () => Promise.resolve({ default: createSimpleMockModel() }),
@@ -183,6 +257,62 @@ test.group('DatabaseExchange Simple Tests', () => {
     })
   })
 
+  test('should rebase rates to the requested base currency', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const result = await provider.latestRates({ base: 'EUR', codes: ['USD', 'EUR', 'GBP'] })
+
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'EUR')
+    assert.closeTo(result.rates.USD, 1 / 0.85, 1e-12)
+    assert.equal(result.rates.EUR, 1)
+    assert.closeTo(result.rates.GBP, 0.73 / 0.85, 1e-12)
+  })
+
+  test('should fail when the requested base currency is missing', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const result = await provider.latestRates({ base: 'JPY' })
+
+    assert.isFalse(result.success)
+    assert.equal(result.error?.info, 'Base currency not found: JPY')
+    assert.equal(result.error?.code, 'E_CURRENCY_NOT_FOUND')
+    assert.deepEqual(result.rates, {})
+  })
+
+  test('should keep the configured base when the manager sets another base', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    provider.setBase('EUR')
+    const result = await provider.latestRates({ base: 'EUR', codes: ['USD'] })
+
+    assert.equal(provider.base, 'USD')
+    assert.closeTo(result.rates.USD, 1 / 0.85, 1e-12)
+  })
+
+  test('should agree on cross rates across all lookups', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const rates = await provider.latestRates({ base: 'EUR', codes: ['GBP'] })
+    const conversion = await provider.convert({ amount: 1, from: 'EUR', to: 'GBP' })
+    const rate = await provider.getConvertRate('EUR', 'GBP')
+
+    assert.equal(conversion.info.rate, rates.rates.GBP)
+    assert.equal(rate, rates.rates.GBP)
+  })
+
   test('should handle model loading error gracefully', async ({ assert }) => {
     const config = {
       model: () => Promise.reject(new Error('Model not found')),
@@ -200,5 +330,938 @@ test.group('DatabaseExchange Simple Tests', () => {
     // Should return error result instead of throwing
     assert.equal(result.success, false)
     assert.include(result.error?.info || '', 'Model not found')
+    assert.equal(result.error?.code, 'E_EXCHANGE_UNAVAILABLE')
+  })
+
+  test('should tag failed results with an error code', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const missing = await provider.convert({ amount: 10, from: 'USD', to: 'JPY' })
+    const invalid = await provider.convert({ amount: -1, from: 'USD', to: 'EUR' })
+    const codes = await provider.latestRates({ codes: ['JPY'] })
+
+    assert.equal(missing.error?.info, 'Currency not found: JPY')
+    assert.equal(missing.error?.code, 'E_CURRENCY_NOT_FOUND')
+    assert.equal(invalid.error?.code, 'E_INVALID_AMOUNT')
+    assert.equal(codes.error?.code, 'E_CURRENCY_NOT_FOUND')
+  })
+
+  test('should report diagnostics through the logger', async ({ assert }) => {
+    const warnings: string[] = []
+    const logger = { warn: (...args: any[]) => warnings.push(args.at(-1)) }
+
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'usd',
+      cache: { service: () => Promise.reject(new Error('Cache unavailable')) },
+    } as any)
+
+    provider.useLogger(logger as any)
+    await provider.latestRates()
+
+    assert.deepEqual(warnings, [
+      "Base currency 'usd' should be a 3-letter ISO currency code",
+      'Cache setup failed, continuing without cache',
+    ])
+  })
+})
+
+test.group('DatabaseExchange rates sync', () => {
+  test('should compute changes without writing them in dry run mode', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      columns: {
+        code: 'code',
+        rate: 'exchange_rate',
+      },
+    } as any)
+
+    const result = await provider.syncRates({
+      base: 'USD',
+      rates: { USD: 1, EUR: 0.9, GBP: 0.73, JPY: 150 },
+      dryRun: true,
+    })
+
+    assert.isTrue(result.success)
+    assert.isTrue(result.dryRun)
+    assert.deepEqual(result.changes, [
+      { code: 'USD', previous: 1, rate: 1, status: 'unchanged' },
+      { code: 'EUR', previous: 0.85, rate: 0.9, status: 'updated' },
+      { code: 'GBP', previous: 0.73, rate: 0.73, status: 'unchanged' },
+      { code: 'JPY', previous: undefined, rate: 150, status: 'created' },
+    ])
+  })
+
+  test('should rebase incoming rates to the exchange base', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      columns: {
+        code: 'code',
+        rate: 'exchange_rate',
+      },
+    } as any)
+
+    const result = await provider.syncRates({
+      base: 'EUR',
+      rates: { EUR: 1, USD: 2, GBP: 1.5 },
+      dryRun: true,
+    })
+
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'USD')
+    assert.deepEqual(
+      result.changes.map(({ code, rate }) => ({ code, rate })),
+      [
+        { code: 'EUR', rate: 0.5 },
+        { code: 'USD', rate: 1 },
+        { code: 'GBP', rate: 0.75 },
+      ]
+    )
+  })
+
+  test('should report a failure when the base rate is missing', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const result = await provider.syncRates({ base: 'EUR', rates: { GBP: 0.85 }, dryRun: true })
+
+    assert.isFalse(result.success)
+    assert.lengthOf(result.failures, 1)
+    assert.equal(result.failures[0].code, 'USD')
+  })
+})
+
+test.group('DatabaseExchange rate validation', () => {
+  const createProvider = (
+    currencies?: Array<{ code: string; exchange_rate: any; updated_at?: string }>,
+    config: Record<string, any> = {}
+  ) =>
+    new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel(currencies) }),
+      base: 'USD',
+      ...config,
+    } as any)
+
+  test('should fail conversions relying on invalid rates', async ({ assert }) => {
+    const provider = createProvider([
+      { code: 'USD', exchange_rate: 1 },
+      { code: 'EUR', exchange_rate: -0.85 },
+      { code: 'GBP', exchange_rate: 0.73 },
+    ])
+
+    const result = await provider.convert({ amount: 100, from: 'EUR', to: 'GBP' })
+
+    assert.isFalse(result.success)
+    assert.equal(result.error?.code, 'E_INVALID_RATE')
+    assert.deepEqual(result.violations, [
+      { code: 'EUR', rule: 'invalid_rate', rate: -0.85, message: 'Invalid exchange rate: -0.85' },
+    ])
+    assert.isUndefined(await provider.getConvertRate('EUR', 'GBP'))
+    assert.equal(await provider.getConvertRate('USD', 'GBP'), 0.73)
+  })
+
+  test('should fail conversions when the base rate is not 1', async ({ assert }) => {
+    const provider = createProvider([
+      { code: 'USD', exchange_rate: 1.2 },
+      { code: 'EUR', exchange_rate: 0.85 },
+    ])
+
+    const result = await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+
+    assert.isFalse(result.success)
+    assert.equal(result.violations?.[0].rule, 'base_rate')
+  })
+
+  test('should leave invalid rates out of the latest rates', async ({ assert }) => {
+    const provider = createProvider([
+      { code: 'USD', exchange_rate: 1.2 },
+      { code: 'EUR', exchange_rate: 0.85 },
+      { code: 'GBP', exchange_rate: 0 },
+      { code: 'JPY', exchange_rate: null },
+    ])
+
+    const result = await provider.latestRates({ base: 'USD', codes: ['EUR', 'GBP'] })
+
+    assert.isTrue(result.success)
+    assert.deepEqual(result.rates, { EUR: 0.85 })
+    assert.deepEqual(
+      result.violations?.map(({ code, rule }) => ({ code, rule })),
+      [
+        { code: 'USD', rule: 'base_rate' },
+        { code: 'GBP', rule: 'invalid_rate' },
+      ]
+    )
+  })
+
+  test('should reject synced rates changing by more than the maximum', async ({ assert }) => {
+    const provider = createProvider(undefined, { validation: { maxChange: 10 } })
+
+    const result = await provider.syncRates({
+      base: 'USD',
+      rates: { EUR: 0.9, GBP: 1.46 },
+      dryRun: true,
+    })
+
+    assert.isFalse(result.success)
+    assert.deepEqual(
+      result.changes.map(({ code }) => code),
+      ['USD', 'EUR']
+    )
+    assert.lengthOf(result.violations, 1)
+    assert.include(result.violations[0], { code: 'GBP', rule: 'max_change', previous: 0.73 })
+    assert.deepEqual(result.failures, [{ code: 'GBP', error: result.violations[0].message }])
+
+    const forced = await provider.syncRates({
+      base: 'USD',
+      rates: { EUR: 0.9, GBP: 1.46 },
+      dryRun: true,
+      force: true,
+    })
+
+    assert.isTrue(forced.success)
+    assert.lengthOf(forced.violations, 0)
+  })
+
+  test('should keep the validation defined with exchanges.database()', async ({ assert }) => {
+    const provider = exchanges.database({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }) as any,
+      validation: { maxChange: 10 },
+    })
+
+    const result = await provider.syncRates({ base: 'USD', rates: { GBP: 1.46 }, dryRun: true })
+
+    assert.isFalse(result.success)
+    assert.include(result.violations[0], { code: 'GBP', rule: 'max_change' })
+  })
+
+  test('should reject a synced base rate other than 1', async ({ assert }) => {
+    const provider = createProvider()
+
+    const result = await provider.syncRates({ base: 'USD', rates: { USD: 2 }, dryRun: true })
+
+    assert.isFalse(result.success)
+    assert.equal(result.violations[0].rule, 'base_rate')
+  })
+
+  test('should audit every row of the currency table', async ({ assert }) => {
+    const provider = createProvider(
+      [
+        { code: 'USD', exchange_rate: 1 },
+        { code: 'EUR', exchange_rate: 1.5, updated_at: '2024-02-15 00:00:00' },
+        { code: 'GBP', exchange_rate: 0.75, updated_at: '2024-03-01 00:00:00' },
+        { code: 'JPY', exchange_rate: 0 },
+      ],
+      {
+        validation: { maxChange: 20 },
+        history: { model: () => Promise.resolve({ default: createHistoryMockModel() }) },
+      }
+    )
+
+    const result = await provider.validateRates()
+
+    assert.isFalse(result.success)
+    assert.equal(result.rows, 4)
+    assert.deepEqual(
+      result.violations.map(({ code, rule, previous }) => ({ code, rule, previous })),
+      [
+        { code: 'EUR', rule: 'max_change', previous: 0.9 },
+        { code: 'JPY', rule: 'invalid_rate', previous: undefined },
+      ]
+    )
+  })
+})
+
+test.group('DatabaseExchange status and scope', () => {
+  const currencies = [
+    { code: 'USD', exchange_rate: 1, status: true },
+    { code: 'EUR', exchange_rate: 0.85, status: true },
+    { code: 'GBP', exchange_rate: 0.73, status: false },
+    { code: 'JPY', exchange_rate: 150, status: true },
+  ]
+
+  const createProvider = (config: Record<string, any> = {}) =>
+    new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel(currencies) }),
+      base: 'USD',
+      columns: { code: 'code', rate: 'exchange_rate', status: 'status' },
+      ...config,
+    } as any)
+
+  test('should ignore inactive currencies', async ({ assert }) => {
+    const provider = createProvider()
+
+    const rates = await provider.latestRates({ base: 'USD' })
+    assert.deepEqual(Object.keys(rates.rates), ['USD', 'EUR', 'JPY'])
+
+    const conversion = await provider.convert({ amount: 100, from: 'USD', to: 'GBP' })
+    assert.isFalse(conversion.success)
+    assert.equal(conversion.error?.info, 'Currency not found: GBP')
+
+    assert.isUndefined(await provider.getConvertRate('USD', 'GBP'))
+    assert.equal(await provider.getConvertRate('USD', 'EUR'), 0.85)
+  })
+
+  test('should constrain the query with the scope callback', async ({ assert }) => {
+    const provider = createProvider({
+      scope: (query: any) => query.where('code', 'JPY'),
+    })
+
+    const rates = await provider.latestRates({ base: 'USD' })
+    assert.deepEqual(rates.rates, { USD: 1, JPY: 150 })
+
+    const conversion = await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.isFalse(conversion.success)
+  })
+
+  test('should keep the scope defined with exchanges.database()', async ({ assert }) => {
+    const provider = exchanges.database({
+      model: () => Promise.resolve({ default: createSimpleMockModel(currencies) }) as any,
+      columns: { code: 'code', rate: 'exchange_rate', status: 'status' },
+      scope: (query) => query.where('code', 'JPY'),
+    })
+
+    const rates = await provider.latestRates({ base: 'USD' })
+    assert.deepEqual(rates.rates, { USD: 1, JPY: 150 })
+  })
+
+  test('should list the supported currencies', async ({ assert }) => {
+    const provider = createProvider()
+    assert.deepEqual(await provider.getSupportedCurrencies(), ['USD', 'EUR', 'JPY'])
+
+    const manager = new CurrencyManager({ default: 'database', exchanges: { database: provider } })
+    assert.deepEqual(await manager.getSupportedCurrencies(), ['USD', 'EUR', 'JPY'])
+  })
+})
+
+test.group('DatabaseExchange historical rates', () => {
+  const createProvider = () =>
+    new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      history: {
+        model: () => Promise.resolve({ default: createHistoryMockModel() }),
+      },
+    } as any)
+
+  test('should convert using the closest rate at or before the date', async ({ assert }) => {
+    const provider = createProvider()
+
+    const result = await provider.convert({
+      amount: 100,
+      from: 'USD',
+      to: 'EUR',
+      date: new Date(2024, 1, 15),
+    })
+
+    assert.isTrue(result.success)
+    assert.equal(result.info.rate, 0.9)
+    assert.equal(result.result, 90)
+  })
+
+  test('should fail when no rate exists at or before the date', async ({ assert }) => {
+    const provider = createProvider()
+
+    const result = await provider.convert({
+      amount: 100,
+      from: 'EUR',
+      to: 'GBP',
+      date: new Date(2023, 11, 31),
+    })
+
+    assert.isFalse(result.success)
+    assert.include(result.error?.info || '', 'No historical rate found for EUR')
+  })
+
+  test('should return historical rates rebased to the requested base', async ({ assert }) => {
+    const provider = createProvider()
+
+    const result = await provider.historicalRates({
+      date: new Date(2024, 1, 15),
+      base: 'EUR',
+      codes: ['GBP'],
+    })
+
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'EUR')
+    assert.deepEqual(Object.keys(result.rates), ['GBP'])
+    assert.closeTo(result.rates.GBP, 0.7 / 0.9, 1e-12)
+  })
+
+  test('should fail when history is not configured', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+    } as any)
+
+    const result = await provider.historicalRates({ date: new Date() })
+
+    assert.isFalse(result.success)
+    assert.equal(result.error?.info, 'Currency history not configured')
+  })
+})
+
+test.group('DatabaseExchange precision mode', () => {
+  const createProvider = (precision: Record<string, any> = {}) =>
+    new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      precision,
+    } as any)
+
+  test('should return exact decimal strings rounded to minor units', async ({ assert }) => {
+    const provider = createProvider()
+
+    const result = await provider.convert({ amount: 100, from: 'EUR', to: 'GBP' })
+
+    assert.isTrue(result.success)
+    assert.deepEqual(result.decimal, { rate: '0.85882352941176470588', result: '85.88' })
+    assert.equal(result.result, 85.88)
+    assert.equal(result.info.rate, 0.8588235294117647)
+  })
+
+  test('should apply the selected rounding strategy', async ({ assert }) => {
+    const floor = await createProvider({ rounding: 'floor' }).convert({
+      amount: 10.01,
+      from: 'USD',
+      to: 'EUR',
+    })
+    const ceil = await createProvider({ rounding: 'ceil' }).convert({
+      amount: 10.01,
+      from: 'USD',
+      to: 'EUR',
+    })
+
+    assert.equal(floor.decimal?.result, '8.50')
+    assert.equal(ceil.decimal?.result, '8.51')
+  })
+
+  test('should apply pricing rules with decimals', async ({ assert }) => {
+    const currency = new CurrencyManager({
+      default: 'database',
+      exchanges: { database: createProvider({ rounding: 'ceil' }) },
+      pricing: { targets: { EUR: { percent: 1.2345 } } },
+    })
+
+    const result = await currency.convert({ amount: 10.01, from: 'USD', to: 'EUR' })
+
+    assert.equal(result.info.rate, 0.85)
+    assert.equal(result.result, 8.62)
+    assert.deepEqual((result as DatabaseConversionResult).decimal, {
+      rate: '0.86049325',
+      result: '8.62',
+    })
+    assert.deepEqual(result.pricing, {
+      markup: { percent: 1.2345 },
+      rate: 0.86049325,
+      result: 8.62,
+    })
+  })
+
+  test('should round same currency conversions as well', async ({ assert }) => {
+    const result = await createProvider().convert({ amount: 10.005, from: 'USD', to: 'USD' })
+
+    assert.deepEqual(result.decimal, { rate: '1', result: '10.00' })
+    assert.equal(result.result, 10)
+  })
+})
+
+test.group('DatabaseExchange staleness guard', () => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString()
+
+  const createProvider = (config: Record<string, any> = {}) =>
+    new DatabaseExchange({
+      model: () =>
+        Promise.resolve({
+          default: createSimpleMockModel([
+            { code: 'USD', exchange_rate: 1.0, updated_at: daysAgo(365) },
+            { code: 'EUR', exchange_rate: 0.85, updated_at: daysAgo(0) },
+            { code: 'GBP', exchange_rate: 0.73, updated_at: daysAgo(30) },
+          ]),
+        }),
+      base: 'USD',
+      maxAge: '7d',
+      ...config,
+    } as any)
+
+  test('should flag results relying on old rates as stale', async ({ assert }) => {
+    const provider = createProvider()
+
+    const fresh = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const stale = await provider.convert({ amount: 10, from: 'USD', to: 'GBP' })
+    const rates = await provider.latestRates({ codes: ['GBP'] })
+
+    assert.isTrue(fresh.success)
+    assert.isFalse(fresh.stale)
+    assert.isTrue(stale.success)
+    assert.isTrue(stale.stale)
+    assert.isTrue(rates.success)
+    assert.isTrue(rates.stale)
+  })
+
+  test('should report the update date of every rate', async ({ assert }) => {
+    const rates = await createProvider().latestRates({ codes: ['EUR', 'GBP'] })
+
+    assert.deepEqual(Object.keys(rates.updatedAt!), ['EUR', 'GBP'])
+    assert.equal(rates.date, rates.updatedAt!.EUR)
+    assert.isBelow(Date.parse(rates.updatedAt!.GBP), Date.parse(rates.updatedAt!.EUR))
+  })
+
+  test('should fail on stale rates when configured to', async ({ assert }) => {
+    const provider = createProvider({ onStale: 'fail' })
+
+    const result = await provider.convert({ amount: 10, from: 'EUR', to: 'GBP' })
+    const rates = await provider.latestRates()
+
+    assert.isFalse(result.success)
+    assert.equal(result.error?.type, 'stale_rates')
+    assert.equal(result.error?.code, 'E_STALE_RATES')
+    assert.include(result.error?.info || '', 'Exchange rates are stale: GBP last updated')
+    assert.isFalse(rates.success)
+    assert.deepEqual(rates.rates, {})
+    assert.isUndefined(await provider.getConvertRate('EUR', 'GBP'))
+    assert.isDefined(await provider.getConvertRate('USD', 'EUR'))
+  })
+
+  test('should notify stale listeners', async ({ assert }) => {
+    const provider = createProvider()
+    const events: any[] = []
+    provider.onStale((event) => {
+      events.push(event)
+    })
+
+    await provider.convert({ amount: 10, from: 'EUR', to: 'GBP' })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.lengthOf(events, 1)
+    assert.deepEqual(events[0].codes, ['GBP'])
+    assert.equal(events[0].maxAge, 7 * 86_400_000)
+    assert.equal(events[0].action, 'flag')
+  })
+})
+
+/**
+ * Minimal in-memory stand-in for the AdonisJS cache service, storing
+ * namespaced keys as `namespace:key`
+ */
+function createMemoryCache() {
+  const store = new Map<string, any>()
+
+  return {
+    store,
+    namespace(name: string) {
+      return {
+        async getOrSet({ key, factory }: { key: string; factory: () => any }) {
+          if (!store.has(`${name}:${key}`)) {
+            store.set(`${name}:${key}`, await factory())
+          }
+          return store.get(`${name}:${key}`)
+        },
+        async clear() {
+          for (const key of store.keys()) {
+            if (key.startsWith(`${name}:`)) {
+              store.delete(key)
+            }
+          }
+        },
+      }
+    },
+  }
+}
+
+test.group('DatabaseExchange cache', () => {
+  test('should report whether rates were read from the cache', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      cache: { service: () => cache },
+    } as any)
+
+    const miss = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const hit = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const rates = await provider.latestRates()
+    const cachedRates = await provider.latestRates()
+
+    assert.equal(miss.cache, 'miss')
+    assert.equal(hit.cache, 'hit')
+    assert.equal(hit.result, miss.result)
+    assert.equal(rates.cache, 'hit')
+    assert.equal(cachedRates.cache, 'hit')
+  })
+
+  test('should not report a cache status without cache', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+    } as any)
+
+    const result = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.isUndefined(result.cache)
+  })
+
+  test('should invalidate every derived key when clearing the cache', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const currencies = [
+      { code: 'USD', exchange_rate: 1.0 },
+      { code: 'EUR', exchange_rate: 0.85 },
+    ]
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel(currencies) }),
+      base: 'USD',
+      cache: { service: () => cache, prefix: 'rates' },
+    } as any)
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    await provider.latestRates()
+    assert.sameMembers([...cache.store.keys()], ['rates:all'])
+
+    currencies[1].exchange_rate = 0.5
+    await provider.clearCache()
+
+    const result = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.equal(result.cache, 'miss')
+    assert.equal(result.result, 5)
+  })
+
+  test('should clear the cache when a model row is saved or deleted', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const hooks: Record<string, (() => Promise<void>)[]> = {}
+    const Model = {
+      ...createSimpleMockModel(),
+      after(event: string, handler: () => Promise<void>) {
+        hooks[event] = [...(hooks[event] ?? []), handler]
+      },
+    }
+
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: Model }),
+      base: 'USD',
+      cache: { service: () => cache },
+    } as any)
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    await provider.convert({ amount: 10, from: 'USD', to: 'GBP' })
+    assert.equal(cache.store.size, 1)
+    assert.lengthOf(hooks.save, 1)
+    assert.lengthOf(hooks.delete, 1)
+
+    await hooks.save[0]()
+    assert.equal(cache.store.size, 0)
+  })
+})
+
+/**
+ * Mock model counting the queries made
+ */
+function createCountingModel(currencies?: Parameters<typeof createSimpleMockModel>[0]) {
+  const model = createSimpleMockModel(currencies)
+  const query = model.query
+  const counter = { queries: 0, model }
+  model.query = () => {
+    counter.queries++
+    return query()
+  }
+  return counter
+}
+
+test.group('DatabaseExchange batch conversion', () => {
+  test('should convert every item with a single query', async ({ assert }) => {
+    const counter = createCountingModel()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: counter.model }),
+      base: 'USD',
+    } as any)
+
+    const results = await provider.convertMany([
+      { amount: 100, from: 'USD', to: 'EUR' },
+      { amount: 0, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'EUR', to: 'JPY' },
+      { amount: 5, from: 'GBP', to: 'GBP' },
+      { amount: 50, from: 'GBP', to: 'EUR' },
+    ])
+
+    assert.equal(counter.queries, 1)
+    assert.deepEqual(
+      results.map((result) => result.success),
+      [true, false, false, true, true]
+    )
+    assert.equal(results[0].result, 85)
+    assert.equal(results[1].error?.code, 'E_INVALID_AMOUNT')
+    assert.equal(results[2].error?.info, 'Currency not found: JPY')
+    assert.equal(results[3].result, 5)
+    assert.closeTo(results[4].result!, (50 * 0.85) / 0.73, 1e-9)
+    assert.deepEqual(results[4].query, { amount: 50, from: 'GBP', to: 'EUR' })
+  })
+
+  test('should read the cached currency list', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      cache: { service: () => cache },
+    } as any)
+
+    const miss = await provider.convertMany([
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'EUR', to: 'GBP' },
+    ])
+    const hit = await provider.convertMany([{ amount: 10, from: 'GBP', to: 'USD' }])
+
+    assert.deepEqual([...cache.store.keys()], ['currency:all'])
+    assert.deepEqual(
+      miss.map((result) => result.cache),
+      ['miss', 'miss']
+    )
+    assert.equal(hit[0].cache, 'hit')
+  })
+
+  test('should fail every item when the rates cannot be read', async ({ assert }) => {
+    const provider = new DatabaseExchange({
+      model: () => Promise.reject(new Error('Connection refused')),
+      base: 'USD',
+    } as any)
+
+    const results = await provider.convertMany([
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'EUR', to: 'EUR' },
+    ])
+
+    assert.isFalse(results[0].success)
+    assert.equal(results[0].error?.info, 'Connection refused')
+    assert.equal(results[0].error?.code, 'E_EXCHANGE_UNAVAILABLE')
+    assert.isTrue(results[1].success)
+  })
+})
+
+test.group('DatabaseExchange snapshot', () => {
+  test('should coalesce concurrent lookups into a single query', async ({ assert }) => {
+    const counter = createCountingModel()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: counter.model }),
+      base: 'USD',
+      snapshot: { ttl: '1m' },
+    } as any)
+
+    const results = await Promise.all([
+      provider.convert({ amount: 10, from: 'USD', to: 'EUR' }),
+      provider.convert({ amount: 10, from: 'EUR', to: 'GBP' }),
+      provider.getConvertRate('GBP', 'USD'),
+      provider.latestRates({ base: 'EUR' }),
+    ])
+
+    assert.equal(counter.queries, 1)
+    assert.equal(results[0].result, 8.5)
+    assert.isTrue(results[3].success)
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'GBP' })
+    assert.equal(counter.queries, 1)
+  })
+
+  test('should reload the snapshot once expired or cleared', async ({ assert }) => {
+    const currencies = [
+      { code: 'USD', exchange_rate: 1.0 },
+      { code: 'EUR', exchange_rate: 0.85 },
+    ]
+    const counter = createCountingModel(currencies)
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: counter.model }),
+      base: 'USD',
+      snapshot: { ttl: 20 },
+    } as any)
+    const convert = () =>
+      provider.convert({ amount: 10, from: 'USD', to: 'EUR' }).then((result) => result.result)
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    currencies[1] = { code: 'EUR', exchange_rate: 0.5 }
+
+    assert.equal(await convert(), 8.5)
+
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    assert.equal(await convert(), 5)
+    assert.equal(counter.queries, 2)
+
+    currencies[1] = { code: 'EUR', exchange_rate: 0.25 }
+    await provider.clearCache()
+    assert.equal(await convert(), 2.5)
+  })
+
+  test('should be disabled along with the cache', async ({ assert }) => {
+    const counter = createCountingModel()
+    const provider = exchanges.database({
+      model: () => Promise.resolve({ default: counter.model }) as any,
+      cache: false,
+    })
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+
+    assert.equal(counter.queries, 2)
+  })
+
+  test('should query the requested codes when disabled', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createSimpleMockModel() }),
+      base: 'USD',
+      cache: { service: () => cache },
+      snapshot: false,
+    } as any)
+
+    await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const hit = await provider.convert({ amount: 10, from: 'USD', to: 'EUR' })
+
+    assert.equal(hit.cache, 'hit')
+    assert.deepEqual([...cache.store.keys()], ['currency:EUR_USD'])
+  })
+})
+
+/**
+ * Mock model storing the rates of every tenant in a "tenant_id" column,
+ * or in one table per connection
+ */
+function createTenantMockModel(
+  tables: Record<string, Array<{ code: string; exchange_rate: number; tenant_id?: string }>>
+) {
+  const queries: string[] = []
+
+  return {
+    queries,
+    query(options?: { connection?: string }) {
+      const connection = options?.connection ?? 'default'
+      let results = [...(tables[connection] ?? [])]
+      queries.push(connection)
+
+      const builder = {
+        client: { dialect: { dateTimeFormat: 'yyyy-MM-dd HH:mm:ss' } },
+        select: () => builder,
+        where: (column: string, value: any) => {
+          results = results.filter((row) => (row as any)[column] === value)
+          return builder
+        },
+        whereNull: (column: string) => {
+          results = results.filter((row) => (row as any)[column] === undefined)
+          return builder
+        },
+        whereIn: (column: string, values: string[]) => {
+          results = results.filter((row) => values.includes((row as any)[column]))
+          return builder
+        },
+        pojo: () => builder,
+        update: async (row: Record<string, any>) => {
+          results.forEach((result) => Object.assign(result, row))
+        },
+        then: (resolve: any) => resolve(results),
+      }
+
+      return builder
+    },
+  }
+}
+
+test.group('DatabaseExchange tenancy', () => {
+  const rows = [
+    { code: 'USD', exchange_rate: 1 },
+    { code: 'EUR', exchange_rate: 0.85 },
+    { code: 'GBP', exchange_rate: 0.73 },
+    { code: 'EUR', exchange_rate: 0.8, tenant_id: 'acme' },
+  ]
+
+  test('should override the global rates with the rates of the tenant', async ({ assert }) => {
+    let tenant: string | undefined = 'acme'
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createTenantMockModel({ default: rows }) }),
+      base: 'USD',
+      tenancy: { resolve: () => tenant, column: 'tenant_id' },
+    } as any)
+
+    const acme = await provider.latestRates({ base: 'USD' })
+    assert.deepEqual(acme.rates, { USD: 1, EUR: 0.8, GBP: 0.73 })
+    assert.equal(await provider.getConvertRate('USD', 'GBP'), 0.73)
+
+    tenant = undefined
+    const global = await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.equal(global.result, 85)
+
+    tenant = 'other'
+    const other = await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.equal(other.result, 85)
+  })
+
+  test('should read the rates of a tenant from its own connection', async ({ assert }) => {
+    const Model = createTenantMockModel({
+      default: rows.slice(0, 3),
+      tenant_acme: [{ code: 'GBP', exchange_rate: 0.7 }],
+    })
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: Model }),
+      base: 'USD',
+      snapshot: false,
+      tenancy: { resolve: () => 'acme', connection: (tenant: string) => `tenant_${tenant}` },
+    } as any)
+
+    const result = await provider.convert({ amount: 100, from: 'EUR', to: 'GBP' })
+
+    assert.closeTo(result.result!, (100 * 0.7) / 0.85, 1e-9)
+    assert.deepEqual(Model.queries, ['default', 'tenant_acme'])
+  })
+
+  test('should cache the rates of every tenant under its own keys', async ({ assert }) => {
+    const cache = createMemoryCache()
+    const provider = new DatabaseExchange({
+      model: () => Promise.resolve({ default: createTenantMockModel({ default: rows }) }),
+      base: 'USD',
+      cache: { service: () => cache, prefix: 'rates' },
+      tenancy: { resolve: () => 'acme', column: 'tenant_id' },
+    } as any)
+
+    await provider.convert({ amount: 100, from: 'USD', to: 'EUR' })
+    assert.sameMembers([...cache.store.keys()], ['rates:all', 'rates:tenant:acme:all'])
+
+    await provider.clearCache()
+    assert.equal(cache.store.size, 0)
+  })
+
+  test('should sync and validate the global rates only', async ({ assert }) => {
+    const table = rows.map((row) => ({ ...row }))
+    const provider = exchanges.database({
+      model: () => Promise.resolve({ default: createTenantMockModel({ default: table }) }) as any,
+      tenancy: { resolve: () => 'acme', column: 'tenant_id' },
+    })
+
+    const result = await provider.syncRates({ base: 'USD', rates: { EUR: 0.9 } })
+
+    assert.isTrue(result.success)
+    assert.deepInclude(result.changes, {
+      code: 'EUR',
+      previous: 0.85,
+      rate: 0.9,
+      status: 'updated',
+    })
+    assert.deepEqual(
+      table.filter((row) => row.code === 'EUR'),
+      [
+        { code: 'EUR', exchange_rate: 0.9 },
+        { code: 'EUR', exchange_rate: 0.8, tenant_id: 'acme' },
+      ]
+    )
+    assert.equal(await provider.getConvertRate('USD', 'EUR'), 0.8)
+    assert.equal(await provider.validateRates().then((audit) => audit.rows), 3)
+  })
+
+  test('should require a tenant column or connection', ({ assert }) => {
+    assert.throws(
+      () =>
+        new DatabaseExchange({
+          model: () => createTenantMockModel({}),
+          tenancy: { resolve: () => 'acme' },
+        } as any),
+      'Tenancy configuration requires either a "column" or a "connection"'
+    )
   })
 })
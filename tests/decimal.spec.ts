@@ -0,0 +1,61 @@
+import { test } from '@japa/runner'
+import { Decimal } from '../src/decimal.js'
+
+test.group('Decimal', () => {
+  test('should parse numbers, strings and exponents', ({ assert }) => {
+    assert.equal(Decimal.from(0.1).toString(), '0.1')
+    assert.equal(Decimal.from('-12.3400').toString(), '-12.3400')
+    assert.equal(Decimal.from(1e-7).toString(), '0.0000001')
+    assert.equal(Decimal.from('1.5e3').toString(), '1500')
+  })
+
+  test('should throw on invalid values', ({ assert }) => {
+    assert.throws(() => Decimal.from(Number.NaN), 'Invalid decimal value: NaN')
+    assert.throws(() => Decimal.from('abc'), 'Invalid decimal value: abc')
+  })
+
+  test('should add without float drift', ({ assert }) => {
+    assert.equal(Decimal.from(0.1).plus(0.2).toString(), '0.3')
+    assert.equal(Decimal.from('100').plus('-1.2345').toString(), '98.7655')
+  })
+
+  test('should multiply without float drift', ({ assert }) => {
+    assert.equal(Decimal.from(0.1).times(0.2).toString(), '0.02')
+    assert.equal(Decimal.from('1.1').times('1.1').toString(), '1.21')
+  })
+
+  test('should divide at the given scale', ({ assert }) => {
+    assert.equal(Decimal.from(1).div(3, 5).toString(), '0.33333')
+    assert.equal(Decimal.from(2).div(3, 5).toString(), '0.66667')
+    assert.equal(Decimal.from('0.73').div('0.85', 8).toString(), '0.85882353')
+    assert.throws(() => Decimal.from(1).div(0, 2), 'Division by zero')
+  })
+
+  test('should round using the {mode} strategy')
+    .with([
+      {
+        mode: 'half-even',
+        values: ['2.345', '2.355', '-2.345'],
+        expected: ['2.34', '2.36', '-2.34'],
+      },
+      {
+        mode: 'half-up',
+        values: ['2.345', '2.344', '-2.345'],
+        expected: ['2.35', '2.34', '-2.35'],
+      },
+      { mode: 'floor', values: ['2.349', '-2.341', '2.34'], expected: ['2.34', '-2.35', '2.34'] },
+      { mode: 'ceil', values: ['2.341', '-2.349', '2.34'], expected: ['2.35', '-2.34', '2.34'] },
+    ] as const)
+    .run(({ assert }, { mode, values, expected }) => {
+      assert.deepEqual(
+        values.map((value) => Decimal.from(value).round(2, mode).toString()),
+        expected
+      )
+    })
+
+  test('should pad and trim decimal places', ({ assert }) => {
+    assert.equal(Decimal.from('5').round(2).toString(), '5.00')
+    assert.equal(Decimal.from('5.2500').trim().toString(), '5.25')
+    assert.equal(Decimal.from('0.000').trim().toString(), '0')
+  })
+})
@@ -0,0 +1,87 @@
+import { test } from '@japa/runner'
+import { Edge } from 'edge.js'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams } from '@mixxtor/currencyx-js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { edgePluginCurrency } from '../src/plugins/edge.js'
+import type { PricingConfig } from '../src/types.js'
+
+/**
+ * Exchange answering with fixed rates and counting rate lookups
+ */
+class FixedExchange extends BaseCurrencyExchange {
+  readonly name = 'fixed'
+  lookups = 0
+
+  constructor(private rates: Record<string, number>) {
+    super()
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    const rate = (await this.getConvertRate(from, to))!
+    return this.createConversionResult(amount, from, to, amount * rate, rate)
+  }
+
+  async latestRates() {
+    return this.createExchangeRatesResult(this.base, this.rates)
+  }
+
+  async getConvertRate(from: string, to: string) {
+    this.lookups++
+    return this.rates[to] && this.rates[from] ? this.rates[to] / this.rates[from] : undefined
+  }
+}
+
+function createEdge(pricing?: PricingConfig) {
+  const exchange = new FixedExchange({ USD: 1, EUR: 0.912345 })
+  const manager = new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+    default: 'fixed',
+    exchanges: { fixed: exchange },
+    pricing,
+  })
+
+  const edge = new Edge()
+  edge.use(edgePluginCurrency(manager))
+  return { edge, exchange, manager }
+}
+
+const request = (language: string) => ({ header: () => language })
+
+test.group('Edge plugin', () => {
+  test('should format amounts with the "currency" global', async ({ assert }) => {
+    const { edge } = createEdge()
+
+    const output = await edge.renderRaw(`{{ currency.format(amount, 'EUR', 'de-DE') }}`, {
+      amount: 1234.567,
+    })
+
+    assert.equal(output, '1.234,57 €')
+  })
+
+  test('should convert amounts with the "currency" global', async ({ assert }) => {
+    const { edge } = createEdge()
+
+    const output = await edge.renderRaw(`{{ await currency.convert(100, 'USD', 'EUR') }}`)
+
+    assert.equal(output, '91.23')
+  })
+
+  test('should apply the pricing rules when converting', async ({ assert }) => {
+    const { edge } = createEdge({ pairs: { 'USD/EUR': { fixed: 0.087655 } } })
+
+    const output = await edge.renderRaw(`{{ await currency.convert(100, 'USD', 'EUR') }}`)
+
+    assert.equal(output, '100')
+  })
+
+  test('should format money with the locale of the request', async ({ assert }) => {
+    const { edge } = createEdge()
+
+    const output = await edge.renderRaw(`@money(price, 'USD')`, {
+      price: 10,
+      request: request('en-US,en;q=0.9'),
+    })
+
+    assert.equal(output.trim(), '$10.00')
+  })
+})
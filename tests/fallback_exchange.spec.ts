@@ -0,0 +1,134 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams, ExchangeRatesParams } from '@mixxtor/currencyx-js'
+import { FallbackExchange } from '../src/exchanges/fallback.js'
+import { defineConfig, exchanges } from '../src/define_config.js'
+
+/**
+ * Exchange answering with fixed rates, or failing when no rates are given
+ */
+class FixedExchange extends BaseCurrencyExchange {
+  readonly name = 'fixed'
+  calls = 0
+
+  constructor(
+    private rates?: Record<string, number>,
+    base = 'USD'
+  ) {
+    super()
+    this.base = base
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    this.calls++
+    const rate = await this.getConvertRate(from, to)
+    if (rate === undefined) {
+      return this.createConversionResult(amount, from, to, undefined, undefined, {
+        info: 'Request timed out',
+      })
+    }
+
+    return this.createConversionResult(amount, from, to, amount * rate, rate)
+  }
+
+  async latestRates(_params?: ExchangeRatesParams) {
+    this.calls++
+    if (!this.rates) {
+      return this.createExchangeRatesResult(this.base, {}, { info: 'Request timed out' })
+    }
+
+    return this.createExchangeRatesResult(this.base, this.rates)
+  }
+
+  async getConvertRate(from: string, to: string) {
+    if (!this.rates || !this.rates[from] || !this.rates[to]) {
+      return undefined
+    }
+
+    return this.rates[to] / this.rates[from]
+  }
+}
+
+test.group('FallbackExchange', () => {
+  test('should answer with the first exchange that succeeds', async ({ assert }) => {
+    const failing = new FixedExchange()
+    const working = new FixedExchange({ USD: 1, EUR: 0.5 })
+    const unused = new FixedExchange({ USD: 1, EUR: 0.9 })
+
+    const fallback = new FallbackExchange(['google', 'database', 'fixer']).setExchanges({
+      google: failing,
+      database: working,
+      fixer: unused,
+    })
+
+    const result = await fallback.convert({ amount: 10, from: 'USD', to: 'EUR' })
+
+    assert.isTrue(result.success)
+    assert.equal(result.result, 5)
+    assert.equal(result.exchange, 'database')
+    assert.equal(unused.calls, 0)
+    assert.equal(await fallback.getConvertRate('USD', 'EUR'), 0.5)
+  })
+
+  test('should fail only when every exchange fails', async ({ assert }) => {
+    const fallback = new FallbackExchange(['google', 'fixer']).setExchanges({
+      google: new FixedExchange(),
+      fixer: new FixedExchange(),
+    })
+
+    const result = await fallback.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const rates = await fallback.latestRates()
+
+    assert.isFalse(result.success)
+    assert.equal(
+      result.error?.info,
+      'All exchanges failed. google: Request timed out; fixer: Request timed out'
+    )
+    assert.isFalse(rates.success)
+    assert.isUndefined(await fallback.getConvertRate('USD', 'EUR'))
+  })
+
+  test('should rebase rates when an exchange answers with another base', async ({ assert }) => {
+    const fallback = new FallbackExchange(['google']).setExchanges({
+      google: new FixedExchange({ EUR: 1, USD: 2, GBP: 1.5 }, 'EUR'),
+    })
+
+    const result = await fallback.latestRates({ base: 'USD', codes: ['GBP'] })
+
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'USD')
+    assert.equal(result.exchange, 'google')
+    assert.deepEqual(result.rates, { GBP: 0.75 })
+  })
+
+  test('should reject unknown and nested fallback exchanges', ({ assert }) => {
+    const nested = new FallbackExchange(['google'])
+
+    assert.throws(
+      () => new FallbackExchange(['google']).setExchanges({}),
+      `Fallback exchange refers to an unknown exchange 'google'`
+    )
+    assert.throws(
+      () => new FallbackExchange(['other']).setExchanges({ other: nested }),
+      `Fallback exchange cannot include another fallback exchange 'other'`
+    )
+  })
+
+  test('should be bound to the configured exchanges by defineConfig', async ({ assert }) => {
+    const database = new FixedExchange({ USD: 1, EUR: 0.5 })
+    const config = defineConfig({
+      default: 'fallback',
+      exchanges: {
+        database,
+        fallback: exchanges.fallback(['database']),
+      },
+    })
+
+    const resolved = await config.resolver({} as any)
+    const result = await resolved.exchanges.fallback.convert({ amount: 2, from: 'USD', to: 'EUR' })
+
+    assert.deepEqual(Object.keys(resolved.exchanges), ['database', 'fallback'])
+    assert.equal(result.exchange, 'database')
+    assert.equal(result.result, 1)
+  })
+})
@@ -0,0 +1,130 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { StaticExchange } from '../src/exchanges/static.js'
+import { CurrencyHealthCheck } from '../src/health_check.js'
+
+/**
+ * Database exchange reporting the given table state
+ */
+class InspectedDatabaseExchange extends DatabaseExchange {
+  constructor(private state: { rows: number; baseRate?: number; updatedAt?: Date }) {
+    super({ model: () => ({}) as any, base: 'USD' } as any)
+  }
+
+  async inspect() {
+    return this.state
+  }
+}
+
+/**
+ * Exchange never answering, like an unreachable remote API
+ */
+class HangingExchange extends BaseCurrencyExchange {
+  readonly name = 'hanging'
+
+  convert(): Promise<never> {
+    return new Promise(() => {})
+  }
+
+  latestRates(): Promise<never> {
+    return new Promise(() => {})
+  }
+
+  getConvertRate(): Promise<never> {
+    return new Promise(() => {})
+  }
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000)
+
+const createManager = (exchanges: Record<string, BaseCurrencyExchange>) =>
+  new CurrencyManager({ default: Object.keys(exchanges)[0], exchanges })
+
+test.group('CurrencyHealthCheck', () => {
+  test('should report healthy exchanges with their metadata', async ({ assert }) => {
+    const updatedAt = hoursAgo(1)
+    const manager = createManager({
+      database: new InspectedDatabaseExchange({ rows: 3, baseRate: 1, updatedAt }),
+      static: new StaticExchange({ rates: { EUR: 0.5 } }),
+    })
+
+    const result = await new CurrencyHealthCheck(manager).run()
+
+    assert.equal(result.status, 'ok')
+    assert.equal(result.message, 'All currency exchanges are healthy')
+    assert.containsSubset(result.meta!.exchanges, {
+      database: {
+        status: 'ok',
+        base: 'USD',
+        rows: 3,
+        baseRate: 1,
+        updatedAt: updatedAt.toISOString(),
+      },
+      static: { status: 'ok', message: 'Exchange answered', base: 'USD' },
+    })
+  })
+
+  test('should report an empty table or an invalid base rate', async ({ assert }) => {
+    const manager = createManager({
+      empty: new InspectedDatabaseExchange({ rows: 0 }),
+      missing: new InspectedDatabaseExchange({ rows: 2 }),
+      invalid: new InspectedDatabaseExchange({ rows: 2, baseRate: 1.2 }),
+    })
+
+    const result = await new CurrencyHealthCheck(manager).run()
+
+    assert.equal(result.status, 'error')
+    assert.equal(result.message, 'Unhealthy currency exchanges: empty, missing, invalid')
+    assert.equal(result.meta!.exchanges.empty.message, 'The currency table is empty')
+    assert.equal(result.meta!.exchanges.missing.message, 'Base currency USD is missing')
+    assert.equal(
+      result.meta!.exchanges.invalid.message,
+      'Base currency USD has a rate of 1.2 instead of 1'
+    )
+  })
+
+  test('should warn or fail when the rates are too old', async ({ assert }) => {
+    const manager = createManager({
+      database: new InspectedDatabaseExchange({ rows: 3, baseRate: 1, updatedAt: hoursAgo(30) }),
+    })
+
+    const warning = await new CurrencyHealthCheck(manager).run()
+    assert.equal(warning.status, 'warning')
+    assert.equal(warning.message, 'Currency exchanges with warnings: database')
+    assert.equal(warning.meta!.exchanges.database.message, 'Rates were updated 1d ago')
+
+    const failure = await new CurrencyHealthCheck(manager).failWhenOlderThan('1d').run()
+    assert.equal(failure.status, 'error')
+
+    const healthy = await new CurrencyHealthCheck(manager).warnWhenOlderThan('2d').run()
+    assert.equal(healthy.status, 'ok')
+  })
+
+  test('should fail exchanges not answering within the timeout', async ({ assert }) => {
+    const manager = createManager({
+      remote: new HangingExchange(),
+      static: new StaticExchange({ rates: { EUR: 0.5 } }),
+    })
+
+    const result = await new CurrencyHealthCheck(manager).timeout(20).run()
+
+    assert.equal(result.status, 'error')
+    assert.equal(result.message, 'Unhealthy currency exchanges: remote')
+    assert.equal(result.meta!.exchanges.remote.message, 'Timed out after 20ms')
+    assert.equal(result.meta!.exchanges.static.status, 'ok')
+  })
+
+  test('should check the selected exchanges only', async ({ assert }) => {
+    const manager = createManager({
+      remote: new HangingExchange(),
+      static: new StaticExchange({ rates: { EUR: 0.5 } }),
+    })
+
+    const result = await new CurrencyHealthCheck(manager).exchanges(['static']).run()
+
+    assert.equal(result.status, 'ok')
+    assert.deepEqual(Object.keys(result.meta!.exchanges), ['static'])
+  })
+})
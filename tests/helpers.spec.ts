@@ -0,0 +1,112 @@
+import { test } from '@japa/runner'
+import {
+  currencyForLocale,
+  fetchRates,
+  preferredLocale,
+  rebaseRates,
+  validateRate,
+} from '../src/helpers.js'
+import { GoogleFinanceExchange } from '@mixxtor/currencyx-js'
+import { StaticExchange } from '../src/exchanges/static.js'
+
+test.group('Helpers | rebaseRates', () => {
+  test('should return a copy of the rates when the base is unchanged', ({ assert }) => {
+    const rates = { EUR: 0.85, GBP: 0.73 }
+    const rebased = rebaseRates(rates, 'USD', 'USD')
+
+    assert.deepEqual(rebased, { USD: 1, EUR: 0.85, GBP: 0.73 })
+    assert.notStrictEqual(rebased, rates)
+  })
+
+  test('should divide every rate by the rate of the new base', ({ assert }) => {
+    const rebased = rebaseRates({ USD: 1, EUR: 0.5, GBP: 0.25 }, 'USD', 'EUR')
+    assert.deepEqual(rebased, { USD: 2, EUR: 1, GBP: 0.5 })
+  })
+
+  test('should throw when the new base rate is missing', ({ assert }) => {
+    assert.throws(
+      () => rebaseRates({ GBP: 0.73 }, 'USD', 'EUR'),
+      `Cannot rebase rates from 'USD' to 'EUR': missing 'EUR' rate`
+    )
+  })
+})
+
+test.group('Helpers | validateRate', () => {
+  test('should accept positive finite rates', ({ assert }) => {
+    assert.isUndefined(validateRate('EUR', 0.85, { base: 'USD' }))
+    assert.isUndefined(validateRate('EUR', '0.85', { base: 'USD' }))
+    assert.isUndefined(validateRate('USD', 1, { base: 'USD' }))
+  })
+
+  test('should reject missing, zero, negative and infinite rates', ({ assert }) => {
+    for (const rate of [null, undefined, 0, -1, Number.POSITIVE_INFINITY, 'abc']) {
+      assert.equal(validateRate('EUR', rate, { base: 'USD' })?.rule, 'invalid_rate')
+    }
+  })
+
+  test('should reject a base currency rate other than 1', ({ assert }) => {
+    assert.deepEqual(validateRate('USD', 1.2, { base: 'USD' }), {
+      code: 'USD',
+      rule: 'base_rate',
+      rate: 1.2,
+      message: 'Base currency USD must have a rate of 1, got 1.2',
+    })
+  })
+
+  test('should reject changes above the maximum percentage', ({ assert }) => {
+    assert.isUndefined(validateRate('EUR', 1, { base: 'USD', previous: 0.9, maxChange: 20 }))
+    assert.isUndefined(validateRate('EUR', 1.8, { base: 'USD', previous: 0.9 }))
+    assert.isUndefined(validateRate('EUR', 1.8, { base: 'USD', maxChange: 20 }))
+
+    const violation = validateRate('EUR', 1.8, { base: 'USD', previous: 0.9, maxChange: 20 })
+    assert.equal(violation?.rule, 'max_change')
+    assert.equal(violation?.previous, 0.9)
+    assert.equal(
+      violation?.message,
+      'Rate of EUR changed by 100.00% (from 0.9 to 1.8), above the 20% limit'
+    )
+  })
+})
+
+test.group('Helpers | preferredLocale', () => {
+  test('should return the locale with the highest quality', ({ assert }) => {
+    assert.equal(preferredLocale('fr-CH, fr;q=0.9, en;q=0.8'), 'fr-CH')
+    assert.equal(preferredLocale('en;q=0.5, de-DE;q=0.9'), 'de-DE')
+  })
+
+  test('should ignore wildcards and missing headers', ({ assert }) => {
+    assert.isUndefined(preferredLocale('*'))
+    assert.isUndefined(preferredLocale(undefined))
+    assert.equal(preferredLocale('*, en-GB;q=0.5'), 'en-GB')
+  })
+})
+
+test.group('Helpers | currencyForLocale', () => {
+  const exchange = new GoogleFinanceExchange()
+
+  test('should return the currency of the locale region', ({ assert }) => {
+    assert.equal(currencyForLocale(exchange, 'en-GB'), 'GBP')
+    assert.equal(currencyForLocale(exchange, 'de-CH'), 'CHF')
+  })
+
+  test('should expand locales without a region', ({ assert }) => {
+    assert.equal(currencyForLocale(exchange, 'fr'), 'EUR')
+    assert.equal(currencyForLocale(exchange, 'ja'), 'JPY')
+  })
+
+  test('should ignore invalid locales', ({ assert }) => {
+    assert.isUndefined(currencyForLocale(exchange, 'not a locale'))
+  })
+})
+
+test.group('Helpers | fetchRates', () => {
+  test('should rebase the rates without changing the exchange base', async ({ assert }) => {
+    const exchange = new StaticExchange({ rates: { EUR: 0.5, GBP: 0.25 } })
+
+    const result = await fetchRates(exchange, { base: 'EUR', codes: ['GBP'] })
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'EUR')
+    assert.deepEqual(result.rates, { GBP: 0.5 })
+    assert.equal(exchange.base, 'USD')
+  })
+})
@@ -0,0 +1,158 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams, ExchangeRatesParams } from '@mixxtor/currencyx-js'
+import { instrumentExchange } from '../src/instrumentation.js'
+import { StaticExchange } from '../src/exchanges/static.js'
+
+/**
+ * Exchange answering with fixed rates, or failing when no rates are given
+ */
+class FixedExchange extends BaseCurrencyExchange {
+  readonly name = 'fixed'
+
+  constructor(private rates?: Record<string, number>) {
+    super()
+    this.base = 'USD'
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    if (!this.rates) {
+      return this.createConversionResult(amount, from, to, undefined, undefined, {
+        info: 'Request timed out',
+      })
+    }
+
+    const rate = this.rates[to] / this.rates[from]
+    return { ...this.createConversionResult(amount, from, to, amount * rate, rate), cache: 'hit' }
+  }
+
+  async latestRates(_params?: ExchangeRatesParams) {
+    if (!this.rates) {
+      throw new Error('Connection refused')
+    }
+
+    return this.createExchangeRatesResult(this.base, this.rates)
+  }
+
+  async getConvertRate(from: string, to: string) {
+    return this.rates?.[to] && this.rates?.[from] ? this.rates[to] / this.rates[from] : undefined
+  }
+}
+
+/**
+ * Emitter recording the emitted events
+ */
+function createEmitter() {
+  const events: { name: string; data: any }[] = []
+
+  return {
+    events,
+    emit(name: string, data: any) {
+      events.push({ name, data })
+    },
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+test.group('instrumentExchange', () => {
+  test('should emit conversion and cache events', async ({ assert }) => {
+    const emitter = createEmitter()
+    const exchange = instrumentExchange('google', new FixedExchange({ USD: 1, EUR: 0.5 }), emitter)
+
+    const result = await exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    await flush()
+
+    assert.equal(result.result, 5)
+    assert.deepEqual(
+      emitter.events.map(({ name }) => name),
+      ['currency:cache_hit', 'currency:converted']
+    )
+
+    const converted = emitter.events[1].data
+    assert.equal(converted.exchange, 'google')
+    assert.equal(converted.from, 'USD')
+    assert.equal(converted.to, 'EUR')
+    assert.equal(converted.rate, 0.5)
+    assert.equal(converted.cache, 'hit')
+    assert.isAtLeast(converted.latency, 0)
+  })
+
+  test('should emit errors for failed results and exceptions', async ({ assert }) => {
+    const emitter = createEmitter()
+    const exchange = instrumentExchange('google', new FixedExchange(), emitter)
+
+    const result = await exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    await assert.rejects(() => exchange.latestRates(), 'Connection refused')
+    await flush()
+
+    assert.isFalse(result.success)
+    assert.deepEqual(
+      emitter.events.map(({ name, data }) => [name, data.operation, data.error.info]),
+      [
+        ['currency:error', 'convert', 'Request timed out'],
+        ['currency:error', 'latestRates', 'Connection refused'],
+      ]
+    )
+  })
+
+  test('should emit an event for every conversion of a batch', async ({ assert }) => {
+    const emitter = createEmitter()
+    const exchange = instrumentExchange(
+      'static',
+      new StaticExchange({ rates: { EUR: 0.5 } }),
+      emitter
+    ) as StaticExchange
+
+    const results = await exchange.convertMany([
+      { amount: 10, from: 'USD', to: 'EUR' },
+      { amount: 10, from: 'USD', to: 'JPY' },
+    ])
+    await flush()
+
+    assert.deepEqual(
+      results.map((result) => result.success),
+      [true, false]
+    )
+    assert.deepEqual(
+      emitter.events.map(({ name }) => name),
+      ['currency:converted', 'currency:error']
+    )
+    assert.containsSubset(emitter.events[0].data, { exchange: 'static', to: 'EUR', result: 5 })
+    assert.containsSubset(emitter.events[1].data, {
+      operation: 'convertMany',
+      to: 'JPY',
+      error: { code: 'E_CURRENCY_NOT_FOUND' },
+    })
+  })
+
+  test('should not fail when a listener throws', async ({ assert }) => {
+    const exchange = instrumentExchange('google', new FixedExchange({ USD: 1, EUR: 0.5 }), {
+      emit() {
+        throw new Error('Listener failed')
+      },
+    })
+
+    const rates = await exchange.latestRates()
+    await flush()
+
+    assert.isTrue(rates.success)
+  })
+
+  test('should only wrap an exchange once', async ({ assert }) => {
+    const first = createEmitter()
+    const second = createEmitter()
+    const exchange = new FixedExchange({ USD: 1, EUR: 0.5 })
+
+    instrumentExchange('google', exchange, first)
+    instrumentExchange('primary', exchange, second)
+
+    await exchange.latestRates()
+    await flush()
+
+    assert.lengthOf(first.events, 0)
+    assert.lengthOf(second.events, 1)
+    assert.equal(second.events[0].name, 'currency:rates_fetched')
+    assert.equal(second.events[0].data.exchange, 'primary')
+  })
+})
@@ -0,0 +1,115 @@
+import { test } from '@japa/runner'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams } from '@mixxtor/currencyx-js'
+import { abortOnClose, closeExchange } from '../src/lifecycle.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+
+/**
+ * Exchange answering once "respond" is called, like a slow remote API
+ */
+class SlowExchange extends BaseCurrencyExchange {
+  readonly name = 'slow'
+  #pending: (() => void)[] = []
+
+  respond() {
+    this.#pending.forEach((resolve) => resolve())
+    this.#pending = []
+  }
+
+  #wait() {
+    return new Promise<void>((resolve) => this.#pending.push(resolve))
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    await this.#wait()
+    return this.createConversionResult(amount, from, to, amount * 2, 2)
+  }
+
+  async latestRates() {
+    await this.#wait()
+    return this.createExchangeRatesResult(this.base, { EUR: 2 })
+  }
+
+  async getConvertRate() {
+    await this.#wait()
+    return 2
+  }
+}
+
+test.group('Exchange lifecycle', () => {
+  test('should answer normally until the exchange is closed', async ({ assert }) => {
+    const exchange = new SlowExchange()
+    abortOnClose(exchange)
+
+    const pending = exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    exchange.respond()
+
+    const result = await pending
+    assert.isTrue(result.success)
+    assert.equal(result.result, 20)
+  })
+
+  test('should settle in-flight calls when the exchange is closed', async ({ assert }) => {
+    const exchange = new SlowExchange()
+    abortOnClose(exchange)
+
+    const conversion = exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    const rates = exchange.latestRates()
+    const rate = exchange.getConvertRate()
+    await closeExchange(exchange)
+
+    const result = await conversion
+    assert.isFalse(result.success)
+    assert.deepEqual(result.error, {
+      code: 'E_EXCHANGE_UNAVAILABLE',
+      info: 'Exchange closed',
+      type: 'aborted',
+    })
+
+    const ratesResult = await rates
+    assert.isFalse(ratesResult.success)
+    assert.isUndefined(await rate)
+
+    const later = await exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.equal(later.error?.type, 'aborted')
+  })
+
+  test('should open a closed exchange wrapped again', async ({ assert }) => {
+    const exchange = new SlowExchange()
+    abortOnClose(exchange)
+    await closeExchange(exchange)
+
+    assert.strictEqual(abortOnClose(exchange), exchange)
+    const pending = exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    exchange.respond()
+    const result = await pending
+    assert.isTrue(result.success)
+
+    const rates = exchange.latestRates()
+    await closeExchange(exchange)
+    const ratesResult = await rates
+    assert.isFalse(ratesResult.success)
+  })
+
+  test('should keep the hooks of exchanges implementing them', async ({ assert }) => {
+    const exchange = new DatabaseExchange({ model: () => ({}) as any } as any)
+    const convert = exchange.convert
+
+    abortOnClose(exchange)
+    assert.strictEqual(exchange.convert, convert)
+    assert.notProperty(exchange, 'close')
+
+    await closeExchange(exchange)
+  })
+
+  test('should prefer the cleanup hook over the close hook', async ({ assert }) => {
+    const calls: string[] = []
+    const exchange = Object.assign(new SlowExchange(), {
+      cleanup: () => calls.push('cleanup'),
+      close: () => calls.push('close'),
+    })
+
+    await closeExchange(exchange)
+    assert.deepEqual(calls, ['cleanup'])
+  })
+})
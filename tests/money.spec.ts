@@ -0,0 +1,121 @@
+import { test } from '@japa/runner'
+import { compose } from '@adonisjs/core/helpers'
+import app, { setApp } from '@adonisjs/core/services/app'
+import { BaseModel, column } from '@adonisjs/lucid/orm'
+import { Money, moneyColumn, withMoney } from '../src/money.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import * as errors from '../src/errors.js'
+
+class Product extends compose(BaseModel, withMoney()) {
+  @column()
+  declare currency: string
+
+  @moneyColumn({ currencyColumn: 'currency' })
+  declare price: Money | null
+}
+
+/**
+ * Minimal model answering with fixed rates for the database exchange
+ */
+const rates = [
+  { code: 'USD', exchange_rate: 1 },
+  { code: 'EUR', exchange_rate: 0.5 },
+  { code: 'JPY', exchange_rate: 149.123 },
+  { code: 'CHF', exchange_rate: 0.8123 },
+]
+
+const RatesModel = {
+  query() {
+    let results = rates
+    const builder = {
+      select: () => builder,
+      whereIn: (_column: string, codes: string[]) => {
+        results = rates.filter((rate) => codes.includes(rate.code))
+        return builder
+      },
+      then: (resolve: any) => resolve(results),
+    }
+    return builder
+  },
+}
+
+test.group('Money', (group) => {
+  const originalApp = app
+
+  group.setup(() => {
+    const manager = new CurrencyManager({
+      default: 'database',
+      exchanges: { database: new DatabaseExchange({ model: () => RatesModel as any }) },
+      pricing: { pairs: { 'USD/EUR': { percent: 10 } } },
+    })
+
+    setApp({ container: { make: async () => manager } } as any)
+  })
+
+  group.teardown(() => {
+    setApp(originalApp)
+  })
+
+  test('should consume amounts as money objects', ({ assert }) => {
+    const product = Product.$createFromAdapterResult({ price: '10.50', currency: 'EUR' })!
+
+    assert.instanceOf(product.price, Money)
+    assert.equal(product.price!.amount, 10.5)
+    assert.equal(product.price!.currency, 'EUR')
+    assert.isFalse(product.$isDirty)
+  })
+
+  test('should serialize to amount and currency', ({ assert }) => {
+    const product = Product.$createFromAdapterResult({ price: 10, currency: 'USD' })!
+
+    assert.deepEqual(product.serialize().price, { amount: 10, currency: 'USD' })
+    assert.deepEqual(JSON.parse(JSON.stringify(new Money(5, 'EUR'))), {
+      amount: 5,
+      currency: 'EUR',
+    })
+  })
+
+  test('should sync the currency column and prepare the amount', async ({ assert }) => {
+    const product = new Product()
+    product.price = new Money(20, 'JPY')
+
+    await Product.$hooks.runner('before:save').run(product)
+
+    assert.equal(product.currency, 'JPY')
+    assert.equal(Product.$getColumn('price')!.prepare!(product.price, 'price', product), 20)
+  })
+
+  test('should convert to another currency', async ({ assert }) => {
+    const price = new Money(10, 'USD')
+
+    const converted = await price.toCurrency('JPY', { exchange: 'database' })
+
+    assert.equal(converted.currency, 'JPY')
+    assert.equal(converted.amount, 1491)
+    assert.strictEqual(await price.toCurrency('USD'), price)
+
+    const zero = await new Money(0, 'USD').toCurrency('EUR')
+    assert.deepEqual(zero.toJSON(), { amount: 0, currency: 'EUR' })
+  })
+
+  test('should round to the minor unit rather than the cash rounding step', async ({ assert }) => {
+    const converted = await new Money(10, 'USD').toCurrency('CHF')
+
+    assert.deepEqual(converted.toJSON(), { amount: 8.12, currency: 'CHF' })
+  })
+
+  test('should apply the pricing rules of the manager', async ({ assert }) => {
+    const converted = await new Money(10, 'USD').toCurrency('EUR')
+
+    assert.deepEqual(converted.toJSON(), { amount: 5.5, currency: 'EUR' })
+  })
+
+  test('should fail to convert to an unknown currency', async ({ assert }) => {
+    await assert.rejects(
+      () => new Money(10, 'USD').toCurrency('GBP'),
+      errors.E_CURRENCY_NOT_FOUND,
+      'Currency not found: GBP'
+    )
+  })
+})
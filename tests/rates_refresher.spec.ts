@@ -0,0 +1,131 @@
+import { test } from '@japa/runner'
+import { Verrou } from '@verrou/core'
+import type { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import { memoryStore } from '@verrou/core/drivers/memory'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { DatabaseExchange } from '../src/exchanges/database.js'
+import { StaticExchange } from '../src/exchanges/static.js'
+import { RatesRefresher } from '../src/rates_refresher.js'
+import type { RatesSyncResult, SyncRatesParams } from '../src/types.js'
+
+/**
+ * Database exchange recording the synced rates instead of writing them
+ */
+class RecordingDatabaseExchange extends DatabaseExchange {
+  synced: SyncRatesParams[] = []
+
+  async syncRates(params: SyncRatesParams): Promise<RatesSyncResult> {
+    this.synced.push(params)
+    return {
+      success: true,
+      base: this.base,
+      dryRun: false,
+      changes: [],
+      failures: [],
+      violations: [],
+    }
+  }
+}
+
+const createManager = () => {
+  const database = new RecordingDatabaseExchange({ model: () => ({}) as any, base: 'USD' } as any)
+  const manager = new CurrencyManager({
+    default: 'database',
+    exchanges: {
+      database,
+      static: new StaticExchange({ base: 'EUR', rates: { USD: 2, GBP: 0.5 } }),
+    } as Record<string, BaseCurrencyExchange>,
+  })
+
+  return { manager, database }
+}
+
+const createLocks = () =>
+  new Verrou({ default: 'memory', stores: { memory: { driver: memoryStore() } } })
+
+test.group('RatesRefresher', () => {
+  test('should validate the configured exchanges', ({ assert }) => {
+    const { manager } = createManager()
+
+    assert.throws(
+      () => new RatesRefresher(manager, { every: '1h', from: 'database', into: 'static' }),
+      'Cannot refresh "static": not a database exchange'
+    )
+    assert.throws(
+      () => new RatesRefresher(manager, { every: 0, from: 'static', into: 'database' }),
+      'Invalid refresh interval: 0'
+    )
+  })
+
+  test('should sync rates from the source into the database exchange', async ({ assert }) => {
+    const { manager, database } = createManager()
+    const refresher = new RatesRefresher(manager, {
+      every: '1h',
+      from: 'static',
+      into: 'database',
+      codes: ['GBP'],
+    })
+
+    const result = await refresher.refresh()
+    assert.isTrue(result?.success)
+    assert.deepEqual(database.synced, [{ base: 'USD', rates: { USD: 1, GBP: 0.25 } }])
+  })
+
+  test('should report the codes the source does not return', async ({ assert }) => {
+    const { manager, database } = createManager()
+    const refresher = new RatesRefresher(manager, {
+      every: '1h',
+      from: 'static',
+      into: 'database',
+      codes: ['GBP', 'JPY'],
+    })
+
+    const result = await refresher.refresh()
+    assert.isFalse(result?.success)
+    assert.deepEqual(result?.failures, [{ code: 'JPY', error: 'Rate not returned by "static"' }])
+    assert.deepEqual(database.synced, [{ base: 'USD', rates: { USD: 1, GBP: 0.25 } }])
+  })
+
+  test('should share overlapping refreshes', async ({ assert }) => {
+    const { manager, database } = createManager()
+    const refresher = new RatesRefresher(manager, { every: '1h', from: 'static', into: 'database' })
+
+    await Promise.all([refresher.refresh(), refresher.refresh()])
+    assert.lengthOf(database.synced, 1)
+  })
+
+  test('should refresh once per interval across instances', async ({ assert }) => {
+    const locks = createLocks()
+    const first = createManager()
+    const second = createManager()
+    const config = { every: '1h', from: 'static', into: 'database' }
+
+    assert.isDefined(await new RatesRefresher(first.manager, config, locks).refresh())
+    assert.isUndefined(await new RatesRefresher(second.manager, config, locks).refresh())
+    assert.lengthOf(first.database.synced, 1)
+    assert.lengthOf(second.database.synced, 0)
+  })
+
+  test('should start and stop the schedule', async ({ assert }) => {
+    const { manager, database } = createManager()
+    const refresher = new RatesRefresher(manager, {
+      every: 20,
+      from: 'static',
+      into: 'database',
+      immediate: true,
+    })
+
+    refresher.start()
+    assert.isTrue(refresher.isStarted)
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await refresher.stop()
+    assert.isFalse(refresher.isStarted)
+
+    const count = database.synced.length
+    assert.isAtLeast(count, 2)
+
+    await new Promise((resolve) => setTimeout(resolve, 40))
+    assert.lengthOf(database.synced, count)
+  })
+})
@@ -0,0 +1,207 @@
+import { test } from '@japa/runner'
+import { Socket } from 'node:net'
+import { IncomingMessage, ServerResponse } from 'node:http'
+import { BaseCurrencyExchange } from '@mixxtor/currencyx-js'
+import type { ConvertParams } from '@mixxtor/currencyx-js'
+import {
+  HttpContextFactory,
+  RequestFactory,
+  ResponseFactory,
+  RouterFactory,
+} from '@adonisjs/core/factories/http'
+import { convertValidator, currencyRoutes, ratesValidator } from '../src/routes.js'
+import { CurrencyManager } from '../src/currency_manager.js'
+import { StaticExchange } from '../src/exchanges/static.js'
+
+const meta = { codes: ['USD', 'EUR', 'GBP'], exchanges: ['database', 'google'] }
+
+test.group('Currency routes validators', () => {
+  test('should normalize and accept known codes and exchanges', async ({ assert }) => {
+    const query = await convertValidator.validate(
+      { amount: '10.5', from: 'usd', to: ' eur ', exchange: 'google' },
+      { meta }
+    )
+
+    assert.deepEqual(query, { amount: 10.5, from: 'USD', to: 'EUR', exchange: 'google' })
+  })
+
+  test('should reject unknown codes, exchanges and amounts', async ({ assert }) => {
+    try {
+      await convertValidator.validate(
+        { amount: '-1', from: 'XXX', to: 'EUR', exchange: 'yahoo' },
+        { meta }
+      )
+      assert.fail('Expected the validation to fail')
+    } catch (error) {
+      assert.sameMembers(
+        error.messages.map((message: { field: string }) => message.field),
+        ['amount', 'from', 'exchange']
+      )
+    }
+  })
+
+  test('should validate lists of rate codes', async ({ assert }) => {
+    const query = await ratesValidator.validate({ base: 'eur', codes: ['usd', 'gbp'] }, { meta })
+    assert.deepEqual(query, { base: 'EUR', codes: ['USD', 'GBP'] })
+
+    await assert.rejects(() => ratesValidator.validate({ codes: ['USD', 'ABC'] }, { meta }))
+  })
+})
+
+/**
+ * Exchange answering with fixed rates relative to a mutable base
+ */
+class FixedExchange extends BaseCurrencyExchange {
+  readonly name = 'fixed'
+
+  constructor(private rates: Record<string, number>) {
+    super()
+  }
+
+  async convert({ amount, from, to }: ConvertParams) {
+    const rate = (await this.getConvertRate(from, to))!
+    return this.createConversionResult(amount, from, to, amount * rate, rate)
+  }
+
+  async latestRates() {
+    return this.createExchangeRatesResult(this.base, this.rates)
+  }
+
+  async getConvertRate(from: string, to: string) {
+    return this.rates[to] && this.rates[from] ? this.rates[to] / this.rates[from] : undefined
+  }
+}
+
+/**
+ * Register the currency routes and run the handler matching the url
+ */
+async function handle(manager: CurrencyManager, url: string, headers: Record<string, string> = {}) {
+  const router = new RouterFactory().create()
+  currencyRoutes(router)
+  router.commit()
+
+  const req = new IncomingMessage(new Socket())
+  req.url = url
+  req.method = 'GET'
+  req.headers = headers
+  const res = new ServerResponse(req)
+
+  const ctx = new HttpContextFactory()
+    .merge({
+      request: new RequestFactory().merge({ req, res }).create(),
+      response: new ResponseFactory().merge({ req, res }).create(),
+    })
+    .create()
+  ctx.containerResolver = { make: async () => manager } as any
+
+  const match = router.match(url.split('?')[0], 'GET')!
+  const handler = match.route.handler as (context: typeof ctx) => Promise<unknown>
+  const value = await handler(ctx)
+  if (value !== undefined && !ctx.response.hasLazyBody) {
+    ctx.response.send(value)
+  }
+
+  return ctx.response
+}
+
+test.group('Currency routes handlers', () => {
+  const createManager = (
+    options: { throwOnError?: boolean } = {},
+    fixed = new FixedExchange({ USD: 1, EUR: 0.5 })
+  ) =>
+    new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+      default: 'static',
+      exchanges: {
+        static: new StaticExchange({
+          rates: { EUR: 0.5, GBP: 0.25 },
+          updatedAt: new Date('2026-01-01T00:00:00Z'),
+        }),
+        fixed,
+        missing: new StaticExchange({ file: '/nonexistent/rates.json' }),
+      },
+      pricing: { pairs: { 'USD/EUR': { percent: 10 } } },
+      ...options,
+    })
+
+  test('should answer with cache headers and 304 when the client is fresh', async ({ assert }) => {
+    const manager = createManager()
+
+    const response = await handle(manager, '/api/currency/rates?codes=EUR')
+    assert.equal(response.getStatus(), 200)
+    assert.deepEqual(response.getBody().rates, { EUR: 0.5 })
+    assert.equal(response.getHeader('cache-control'), 'public, max-age=60')
+
+    const etag = String(response.getHeader('etag'))
+    const cached = await handle(manager, '/api/currency/rates?codes=EUR', {
+      'if-none-match': etag,
+    })
+    assert.equal(cached.getStatus(), 304)
+
+    const changed = await handle(manager, '/api/currency/rates?codes=GBP', {
+      'if-none-match': etag,
+    })
+    assert.equal(changed.getStatus(), 200)
+  })
+
+  test('should rebase the rates without changing the exchange base', async ({ assert }) => {
+    const exchange = new FixedExchange({ USD: 1, EUR: 0.5 })
+    const response = await handle(
+      createManager({}, exchange),
+      '/api/currency/rates?base=EUR&exchange=fixed'
+    )
+    assert.equal(response.getBody().base, 'EUR')
+    assert.deepEqual(response.getBody().rates, { USD: 2, EUR: 1 })
+    assert.equal(exchange.base, 'USD')
+  })
+
+  test('should apply the pricing rules to conversions', async ({ assert }) => {
+    const response = await handle(
+      createManager(),
+      '/api/currency/convert?amount=100&from=USD&to=EUR'
+    )
+
+    assert.equal(response.getStatus(), 200)
+    assert.closeTo(response.getBody().result, 55, 1e-9)
+    assert.equal(response.getHeader('cache-control'), 'private, max-age=60')
+  })
+
+  test('should not share conversions priced by another markup', async ({ assert }) => {
+    let percent = 10
+    const manager = new CurrencyManager<Record<string, BaseCurrencyExchange>>({
+      default: 'static',
+      exchanges: { static: new StaticExchange({ rates: { EUR: 0.5 } }) },
+      pricing: { markup: () => ({ percent }) },
+    })
+    const url = '/api/currency/convert?amount=100&from=USD&to=EUR'
+
+    const first = await handle(manager, url)
+    assert.equal(first.getHeader('cache-control'), 'private, max-age=60')
+
+    percent = 20
+    const second = await handle(manager, url, { 'if-none-match': String(first.getHeader('etag')) })
+    assert.equal(second.getStatus(), 200)
+    assert.closeTo(second.getBody().result, 60, 1e-9)
+    assert.notEqual(second.getHeader('etag'), first.getHeader('etag'))
+  })
+
+  test('should answer with the status of the error when the request fails', async ({ assert }) => {
+    const response = await handle(createManager(), '/api/currency/convert?amount=1&from=USD&to=JPY')
+
+    assert.equal(response.getStatus(), 404)
+    assert.isFalse(response.getBody().success)
+    assert.isUndefined(response.getHeader('etag'))
+
+    const unavailable = await handle(createManager(), '/api/currency/rates?exchange=missing')
+    assert.equal(unavailable.getStatus(), 503)
+    assert.equal(unavailable.getBody().error.code, 'E_EXCHANGE_UNAVAILABLE')
+
+    await assert.rejects(
+      () =>
+        handle(
+          createManager({ throwOnError: true }),
+          '/api/currency/convert?amount=1&from=USD&to=JPY'
+        ),
+      'Currency not found: JPY'
+    )
+  })
+})
@@ -0,0 +1,104 @@
+import { test } from '@japa/runner'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { StaticExchange } from '../src/exchanges/static.js'
+import { exchanges } from '../src/define_config.js'
+
+test.group('StaticExchange', () => {
+  test('static helper should require rates or a file', ({ assert }) => {
+    assert.throws(() => exchanges.static({}), 'Static exchange requires either "rates" or "file"')
+
+    const exchange = exchanges.static({ base: 'EUR', rates: { USD: 1.1 } })
+    assert.instanceOf(exchange, StaticExchange)
+    assert.equal(exchange.base, 'EUR')
+  })
+
+  test('should convert using cross rates', async ({ assert }) => {
+    const exchange = new StaticExchange({ rates: { EUR: 0.5, GBP: 0.25 } })
+
+    const result = await exchange.convert({ amount: 100, from: 'EUR', to: 'GBP' })
+    assert.isTrue(result.success)
+    assert.equal(result.info.rate, 0.5)
+    assert.equal(result.result, 50)
+
+    const same = await exchange.convert({ amount: 100, from: 'EUR', to: 'EUR' })
+    assert.equal(same.info.rate, 1)
+    assert.equal(await exchange.getConvertRate('GBP', 'EUR'), 2)
+    assert.equal(await exchange.getConvertRate('USD', 'EUR'), 0.5)
+  })
+
+  test('should report errors like the database exchange', async ({ assert }) => {
+    const exchange = new StaticExchange({ rates: { EUR: 0.5 } })
+
+    const invalid = await exchange.convert({ amount: 0, from: 'USD', to: 'EUR' })
+    assert.isFalse(invalid.success)
+    assert.equal(invalid.error?.info, 'Invalid amount: must be greater than 0')
+
+    const missing = await exchange.convert({ amount: 10, from: 'USD', to: 'JPY' })
+    assert.isFalse(missing.success)
+    assert.equal(missing.error?.info, 'Currency not found: JPY')
+    assert.isUndefined(await exchange.getConvertRate('USD', 'JPY'))
+
+    const rates = await exchange.latestRates({ codes: ['JPY'] })
+    assert.isFalse(rates.success)
+    assert.equal(rates.error?.info, 'No matching currencies found for codes: JPY')
+  })
+
+  test('should rebase and filter the latest rates', async ({ assert }) => {
+    const exchange = new StaticExchange({
+      rates: { EUR: 0.5, GBP: 0.25 },
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    })
+
+    const result = await exchange.latestRates({ base: 'EUR', codes: ['USD', 'GBP'] })
+    assert.isTrue(result.success)
+    assert.equal(result.base, 'EUR')
+    assert.deepEqual(result.rates, { USD: 2, GBP: 0.5 })
+    assert.equal(result.timestamp, Date.parse('2024-01-01T00:00:00.000Z'))
+
+    const unknown = await exchange.latestRates({ base: 'JPY' })
+    assert.isFalse(unknown.success)
+    assert.equal(unknown.error?.info, 'Base currency not found: JPY')
+  })
+
+  test('should load rates from a JSON file', async ({ assert, cleanup }) => {
+    const directory = await mkdtemp(join(tmpdir(), 'currencyx-'))
+    cleanup(() => rm(directory, { recursive: true, force: true }))
+
+    const file = join(directory, 'rates.json')
+    await writeFile(
+      file,
+      JSON.stringify({ rates: { EUR: 0.5, GBP: 0.25 }, updatedAt: '2024-01-01T00:00:00.000Z' })
+    )
+
+    const exchange = new StaticExchange({ file })
+    const result = await exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.equal(result.result, 5)
+    assert.equal(result.date, '2024-01-01T00:00:00.000Z')
+
+    await writeFile(file, JSON.stringify({ EUR: 0.8 }))
+    await exchange.reload()
+    assert.equal(await exchange.getConvertRate('USD', 'EUR'), 0.8)
+  })
+
+  test('should load rates from a CSV file', async ({ assert, cleanup }) => {
+    const directory = await mkdtemp(join(tmpdir(), 'currencyx-'))
+    cleanup(() => rm(directory, { recursive: true, force: true }))
+
+    const file = join(directory, 'rates.csv')
+    await writeFile(file, 'code,rate\nEUR,0.5\n"GBP", 0.25\n')
+
+    const exchange = new StaticExchange({ file })
+    const result = await exchange.latestRates()
+    assert.deepEqual(result.rates, { EUR: 0.5, GBP: 0.25, USD: 1 })
+  })
+
+  test('should report a missing file as an error result', async ({ assert }) => {
+    const exchange = new StaticExchange({ file: join(tmpdir(), 'missing-currencyx-rates.json') })
+
+    const result = await exchange.convert({ amount: 10, from: 'USD', to: 'EUR' })
+    assert.isFalse(result.success)
+    assert.equal(result.error?.type, 'static_error')
+  })
+})